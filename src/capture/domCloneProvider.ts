@@ -0,0 +1,84 @@
+import html2canvas from 'html2canvas'
+import type { CaptureProvider } from '../types'
+import type { Redactor } from '../utils/redaction'
+import { OVERLAY_SELECTORS, cleanClonedStyles, cropCanvas, getTargetRect } from './utils'
+
+// Create a simplified, redacted copy of the page sized to the viewport
+const createScreenshotClone = (redactor: Redactor): HTMLElement => {
+  const clone = document.body.cloneNode(true) as HTMLElement
+
+  // Remove problematic elements, and the chat itself when it's docked or floating over the page
+  const elementsToRemove = clone.querySelectorAll([
+    ...OVERLAY_SELECTORS,
+    '[class*="analyze-chat"]',
+    'script',
+    'style[data-vite-dev-id]', // Vite dev styles
+    'link[data-vite-dev]'      // Vite dev links
+  ].join(', '))
+
+  elementsToRemove.forEach(el => el.remove())
+
+  // Black out sensitive elements before anything is rendered
+  redactor.redactClone(clone)
+
+  // Create a container with safe styling
+  const container = document.createElement('div')
+  container.style.cssText = `
+    position: relative;
+    width: ${window.innerWidth}px;
+    height: ${window.innerHeight}px;
+    background: #ffffff;
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    color: #000000;
+    overflow: hidden;
+  `
+
+  // Move clone content to container
+  while (clone.firstChild) {
+    container.appendChild(clone.firstChild)
+  }
+
+  return container
+}
+
+/**
+ * Fallback that renders an off-screen copy of the page with html2canvas (safer but less accurate),
+ * cropping it to the requested region or element
+ */
+export function createDomCloneProvider(): CaptureProvider {
+  return {
+    name: 'domClone',
+
+    async capture({ target, redactor }) {
+      const clonedElement = createScreenshotClone(redactor)
+
+      // Temporarily add to document for rendering
+      clonedElement.style.position = 'fixed'
+      clonedElement.style.top = '-10000px'
+      clonedElement.style.left = '-10000px'
+      clonedElement.style.zIndex = '-1000'
+      document.body.appendChild(clonedElement)
+
+      try {
+        const canvas = await html2canvas(clonedElement, {
+          height: window.innerHeight,
+          width: window.innerWidth,
+          useCORS: true,
+          allowTaint: false,
+          scale: 1.0,
+          logging: false,
+          imageTimeout: 12000,
+          backgroundColor: '#ffffff',
+          foreignObjectRendering: false,
+          onclone: (clonedDoc) => cleanClonedStyles(clonedDoc, false)
+        })
+
+        return target ? cropCanvas(canvas, getTargetRect(target)) : canvas
+      } finally {
+        if (document.body.contains(clonedElement)) {
+          document.body.removeChild(clonedElement)
+        }
+      }
+    }
+  }
+}
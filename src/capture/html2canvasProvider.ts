@@ -0,0 +1,82 @@
+import html2canvas from 'html2canvas'
+import type { CaptureProvider } from '../types'
+import { OVERLAY_SELECTORS, getClassNameString, cleanClonedStyles, getTargetOptions } from './utils'
+
+/**
+ * Options for the html2canvas capture provider
+ */
+export interface Html2CanvasProviderOptions {
+  /** Render scale. Default: 1.5 */
+  scale?: number
+
+  /** Milliseconds to wait for images. Default: 15000 */
+  imageTimeout?: number
+}
+
+/**
+ * Renders the live page (or the requested region/element) with html2canvas,
+ * hiding modals and overlays while it runs
+ */
+export function createHtml2CanvasProvider(options: Html2CanvasProviderOptions = {}): CaptureProvider {
+  const { scale = 1.5, imageTimeout = 15000 } = options
+
+  return {
+    name: 'html2canvas',
+
+    async capture({ target, redactor }) {
+      // Hide modals temporarily
+      const modalsAndOverlays = document.querySelectorAll(OVERLAY_SELECTORS.join(', ')) as NodeListOf<HTMLElement>
+      const originalDisplayValues: string[] = []
+
+      modalsAndOverlays.forEach((element, index) => {
+        originalDisplayValues[index] = element.style.display
+        element.style.display = 'none'
+      })
+
+      await new Promise(resolve => setTimeout(resolve, 100))
+
+      try {
+        return await html2canvas(target?.type === 'element' ? target.element : document.body, {
+          ...getTargetOptions(target),
+          useCORS: true,
+          allowTaint: false,
+          scale,
+          logging: false,
+          imageTimeout,
+          removeContainer: true,
+          backgroundColor: '#ffffff',
+          foreignObjectRendering: false,
+          ignoreElements: (element) => {
+            try {
+              const className = getClassNameString(element)
+
+              return (
+                className.includes('modal') ||
+                className.includes('overlay') ||
+                className.includes('analyze-chat') ||
+                className.includes('dropdown') ||
+                className.includes('tooltip') ||
+                element.getAttribute('role') === 'dialog'
+              )
+            } catch (error) {
+              console.warn('[AnalyzeChat] Error checking element in ignoreElements:', error)
+              return false
+            }
+          },
+          onclone: (clonedDoc) => {
+            // Black out sensitive elements; never let a failure here leak them
+            redactor.redactClone(clonedDoc)
+
+            // Remove problematic CSS that html2canvas can't parse
+            cleanClonedStyles(clonedDoc)
+          }
+        })
+      } finally {
+        // Restore modals, even on error
+        modalsAndOverlays.forEach((element, index) => {
+          element.style.display = originalDisplayValues[index] || ''
+        })
+      }
+    }
+  }
+}
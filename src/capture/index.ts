@@ -0,0 +1,3 @@
+export { createHtml2CanvasProvider, type Html2CanvasProviderOptions } from './html2canvasProvider'
+export { createDomCloneProvider } from './domCloneProvider'
+export { createTextSummaryProvider } from './textSummaryProvider'
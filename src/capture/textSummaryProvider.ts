@@ -0,0 +1,47 @@
+import type { CaptureProvider } from '../types'
+
+/**
+ * Last resort: an image of the page's title, URL and visible text, with redaction applied.
+ * Reaching it means every real capture failed, which is reported as a ScreenshotError
+ */
+export function createTextSummaryProvider(): CaptureProvider {
+  return {
+    name: 'textSummary',
+    fallback: true,
+
+    async capture({ redactor }) {
+      const canvas = document.createElement('canvas')
+      const ctx = canvas.getContext('2d')
+
+      if (!ctx) return null
+
+      canvas.width = 800
+      canvas.height = 600
+
+      // White background
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+      // Add page info as text
+      ctx.fillStyle = '#000000'
+      ctx.font = '16px Arial'
+      ctx.fillText(`Page: ${redactor.maskText(window.location.pathname)}`, 20, 40)
+      ctx.fillText(`Title: ${redactor.maskText(document.title)}`, 20, 70)
+      ctx.fillText(`Time: ${new Date().toLocaleString()}`, 20, 100)
+      ctx.fillText('Screenshot capture failed - text summary provided', 20, 140)
+
+      // Try to get some visible text content
+      const textContent = redactor.extractText(document.body, 500)
+      const lines = textContent.split('\n').slice(0, 20)
+
+      ctx.font = '12px Arial'
+      lines.forEach((line, index) => {
+        if (line.trim()) {
+          ctx.fillText(line.trim().slice(0, 80), 20, 180 + (index * 20))
+        }
+      })
+
+      return canvas
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { CaptureRect, CaptureTarget } from '../types'
+
+// Overlays that must not appear in a capture of the page underneath
+export const OVERLAY_SELECTORS = [
+  '.modal-overlay',
+  '[role="dialog"]',
+  '.modal',
+  '.popup',
+  '.dropdown-menu',
+  '.tooltip'
+]
+
+/**
+ * Safely get className as string (handles SVGAnimatedString and other non-string types)
+ */
+export function getClassNameString(element: Element): string {
+  try {
+    const className = element.className
+    if (typeof className === 'string') {
+      return className
+    }
+    if (className && typeof className === 'object' && 'baseVal' in className) {
+      return (className as any).baseVal || ''
+    }
+    return ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Replace modern CSS color functions html2canvas can't parse in a string of CSS
+ */
+export function stripUnsupportedColors(css: string): string {
+  return css
+    // Remove color() function with any content including nested parentheses
+    .replace(/color\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
+    .replace(/color-mix\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
+    .replace(/lab\s*\([^)]*\)/gi, '#000000')
+    .replace(/lch\s*\([^)]*\)/gi, '#000000')
+    .replace(/oklab\s*\([^)]*\)/gi, '#000000')
+    .replace(/oklch\s*\([^)]*\)/gi, '#000000')
+    // Remove any remaining color() functions even if malformed
+    .replace(/color\s*\(/gi, 'rgb(0,0,0 /*')
+}
+
+/**
+ * Clean <style> elements (and optionally inline styles) in a document cloned by html2canvas
+ */
+export function cleanClonedStyles(clonedDoc: Document, includeInline = true) {
+  try {
+    console.log('[AnalyzeChat] Cleaning CSS in cloned document...')
+
+    const styles = clonedDoc.querySelectorAll('style')
+    console.log(`[AnalyzeChat] Found ${styles.length} style elements`)
+
+    styles.forEach((style, index) => {
+      if (style.textContent) {
+        const originalLength = style.textContent.length
+        style.textContent = stripUnsupportedColors(style.textContent)
+
+        const newLength = style.textContent.length
+        if (originalLength !== newLength) {
+          console.log(`[AnalyzeChat] Style ${index}: cleaned ${originalLength - newLength} chars`)
+        }
+      }
+    })
+
+    if (includeInline) {
+      clonedDoc.querySelectorAll('[style]').forEach(element => {
+        const styleAttr = element.getAttribute('style')
+        if (styleAttr && /color\s*\(/i.test(styleAttr)) {
+          element.setAttribute('style', stripUnsupportedColors(styleAttr))
+          console.log('[AnalyzeChat] Cleaned inline style')
+        }
+      })
+    }
+
+    console.log('[AnalyzeChat] CSS cleaning completed')
+  } catch (error) {
+    console.error('[AnalyzeChat] Error cleaning CSS:', error)
+  }
+}
+
+/**
+ * Viewport rectangle covered by a capture target
+ */
+export function getTargetRect(target: CaptureTarget): CaptureRect {
+  if (target.type === 'region') return target.rect
+  const { x, y, width, height } = target.element.getBoundingClientRect()
+  return { x, y, width, height }
+}
+
+/**
+ * html2canvas size/position options for the requested target
+ */
+export function getTargetOptions(target?: CaptureTarget) {
+  if (!target) {
+    return { height: window.innerHeight, width: window.innerWidth, scrollX: 0, scrollY: 0 }
+  }
+  if (target.type === 'element') {
+    // html2canvas sizes the canvas to the element itself
+    return {}
+  }
+  return {
+    x: target.rect.x + window.scrollX,
+    y: target.rect.y + window.scrollY,
+    width: target.rect.width,
+    height: target.rect.height
+  }
+}
+
+/**
+ * Cut a viewport rectangle out of a full-viewport canvas
+ */
+export function cropCanvas(source: HTMLCanvasElement, rect: CaptureRect): HTMLCanvasElement {
+  const ratio = source.width / window.innerWidth
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(rect.width * ratio))
+  canvas.height = Math.max(1, Math.round(rect.height * ratio))
+  canvas.getContext('2d')?.drawImage(
+    source,
+    rect.x * ratio, rect.y * ratio, rect.width * ratio, rect.height * ratio,
+    0, 0, canvas.width, canvas.height
+  )
+  return canvas
+}
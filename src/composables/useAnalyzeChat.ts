@@ -1,9 +1,106 @@
-import { ref, computed, type Ref } from 'vue'
-import html2canvas from 'html2canvas'
-import type { Conversation, AnalyzeChatConfig } from '../types'
+import { ref, computed, reactive, getCurrentScope, onScopeDispose, type Ref } from 'vue'
+import type {
+  Conversation,
+  ConversationThread,
+  ConversationHistoryEntry,
+  ConversationStore,
+  ConversationAttachment,
+  ConversationFeedback,
+  ConversationShare,
+  FeedbackRecord,
+  FeedbackSummary,
+  CaptureTarget,
+  CaptureProvider,
+  CaptureInfo,
+  PageData,
+  ModelOption,
+  PromptTemplate,
+  SavedPromptTemplate,
+  ExportFormat,
+  ImportResult,
+  MigrationOptions,
+  MigrationResult,
+  AnalyzeChatConfig
+} from '../types'
+import { isStreamingResponse, readResponseStream } from '../utils/streaming'
+import { createSupabaseStore } from '../stores/supabaseStore'
+import { createLocalStorageStore } from '../stores/localStorageStore'
+import { createHtml2CanvasProvider, createDomCloneProvider, createTextSummaryProvider } from '../capture'
+import { createRedactor } from '../utils/redaction'
+import { extractPageData } from '../utils/pageContext'
+import { createOutbox, type OutboxEntry } from '../utils/outbox'
+import { toFeedbackRecords, summarizeFeedback } from '../utils/feedback'
+import { fillTemplate, pageVariables, toTemplateVariables, commandFor } from '../utils/promptTemplates'
+import { normalizeSuggestions, extractSuggestions } from '../utils/suggestions'
+import { encodeCanvas, dataUrlBytes, mimeTypeOf, extensionFor } from '../utils/imageEncoding'
+import {
+  SCREENSHOT_ATTACHMENT_ID,
+  attachableType,
+  screenshotAttachment,
+  extraAttachments,
+  readAsDataUrl,
+  loadImageCanvas,
+  formatBytes
+} from '../utils/attachments'
+import {
+  exportToMarkdown,
+  exportToJson,
+  exportToHtml,
+  parseConversationExport
+} from '../utils/exportConversations'
+import {
+  AnalyzeChatError,
+  NetworkError,
+  HttpError,
+  ScreenshotError,
+  StorageError,
+  QuotaError,
+  isQuotaExceeded,
+  toAnalyzeChatError
+} from '../errors'
 
 const DEFAULT_API_URL = 'https://www.y2k.fund/api/ai-analyze'
-const DEFAULT_STORAGE_KEY = 'y2kfund-analyze-chat-conversations'
+export const DEFAULT_STORAGE_KEY = 'y2kfund-analyze-chat-conversations'
+
+// Conversations fetched per page of history
+const PAGE_SIZE = 50
+
+// Conversations per request when walking a whole store (feedback totals, clearing), so no query loads every row
+const SCAN_PAGE_SIZE = 200
+
+// Automatic outbox attempts before a conversation is marked as failed to sync
+const MAX_SYNC_ATTEMPTS = 5
+
+// Longest wait between automatic outbox attempts
+const MAX_SYNC_BACKOFF = 30 * 60 * 1000
+
+// Characters of each attached text file sent to the API
+const MAX_ATTACHMENT_TEXT = 20000
+
+const generateId = () => crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`
+
+/** Query parameter the default share link carries its token in */
+export const SHARE_TOKEN_PARAM = 'analyze-share'
+
+// 24 random bytes as base64url: short enough for a link, long enough not to be guessed
+const generateShareToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// In-flight AI request, cancellable from the UI
+interface ActiveRequest {
+  conversationId: string
+  controller: AbortController
+  /** Why the request was aborted, if it was */
+  reason: 'cancelled' | 'timeout' | null
+  /** (Re)start the inactivity timeout */
+  armTimeout: () => void
+  dispose: () => void
+}
+
+/** Receives every error reported by useAnalyzeChat */
+export type AnalyzeChatErrorHandler = (error: AnalyzeChatError) => void
 
 /**
  * Composable for AI chat functionality with screenshot capture
@@ -13,562 +110,681 @@ export function useAnalyzeChat(config: AnalyzeChatConfig = {}) {
   const {
     apiUrl = DEFAULT_API_URL,
     maxScreenshotRetries = 2,
-    //screenshotQuality = 0.95,
+    screenshotFormat = 'jpeg',
+    screenshotQuality = 0.8,
+    screenshotMaxDimension = 1920,
+    screenshotMaxBytes = 512000,
     storageKey = DEFAULT_STORAGE_KEY,
     captureScreenshots = true,
     headers = {},
     supabaseClient = null,
-    user = null,
-    enableDatabase = !!supabaseClient
+    enableDatabase = !!supabaseClient || !!config.store,
+    streamResponses = false,
+    historyWindow = 5,
+    redactSelectors = [],
+    redactPatterns = [],
+    extractPageData: shouldExtractPageData = true,
+    pageDataBudget = 8000,
+    contextProvider,
+    promptTemplates: configTemplates = [],
+    shareUrl,
+    requestTimeout = 60000,
+    maxRetries = 2,
+    retryDelay = 1000,
+    syncInterval = 30000,
+    maxAttachments = 5,
+    maxAttachmentBytes = 2 * 1024 * 1024,
+    models = [],
+    defaultParameters = {}
   } = config
 
+  const redactor = createRedactor({ selectors: redactSelectors, patterns: redactPatterns })
+  const imageEncoding = {
+    format: screenshotFormat,
+    quality: screenshotQuality,
+    maxDimension: screenshotMaxDimension,
+    maxBytes: screenshotMaxBytes
+  }
+
   const conversations = ref<Conversation[]>([])
   const isProcessing = ref(false)
   const isLoading = ref(false)
+  const isLoadingOlder = ref(false)
+  const hasMore = ref(false)
+  const activeThreadId = ref<string>(generateId())
+  const isMigrating = ref(false)
 
-  // Check if database storage is available
-  const canUseDatabase = () => {
-    return enableDatabase && supabaseClient && user?.id
+  // Models offered in the picker, and the one new questions are sent to.
+  // The choice is remembered per device as long as it's still offered.
+  const modelOptions: ModelOption[] = models.map(model => (typeof model === 'string' ? { id: model } : model))
+  const modelKey = `${storageKey}-model`
+  const savedModel = localStorage.getItem(modelKey)
+  const selectedModel = ref<string | null>(
+    modelOptions.find(option => option.id === savedModel)?.id ?? modelOptions[0]?.id ?? null
+  )
+
+  // Pick the model for the next question
+  const setModel = (modelId: string) => {
+    if (!modelOptions.some(option => option.id === modelId)) {
+      console.warn(`[AnalyzeChat] Ignoring unknown model: ${modelId}`)
+      return
+    }
+    selectedModel.value = modelId
+    localStorage.setItem(modelKey, modelId)
   }
 
-  // Load conversations from database or localStorage
-  const loadConversations = async () => {
-    if (canUseDatabase()) {
-      await loadFromDatabase()
-    } else {
-      loadFromLocalStorage()
+  // Configured prompt templates first, then the user's saved ones
+  const savedTemplates = ref<SavedPromptTemplate[]>([])
+  const promptTemplates = computed<PromptTemplate[]>(() => [...configTemplates, ...savedTemplates.value])
+  const isSyncing = ref(false)
+  // Signed-in user; updated with setUser when the host app's auth state changes
+  const currentUser = ref<{ id: string } | null>(config.user ?? null)
+  let activeRequest: ActiveRequest | null = null
+  const errorHandlers = new Set<AnalyzeChatErrorHandler>()
+
+  // Subscribe to errors; returns a function that unsubscribes
+  const onError = (handler: AnalyzeChatErrorHandler) => {
+    errorHandlers.add(handler)
+    return () => {
+      errorHandlers.delete(handler)
     }
   }
 
-  // Load from Supabase database
-  const loadFromDatabase = async () => {
-    if (!supabaseClient || !user?.id) return
-    
+  // Pass an error to every subscriber; a throwing handler can't break the others
+  const reportError = (error: unknown) => {
+    const chatError = toAnalyzeChatError(error)
+    errorHandlers.forEach(handler => {
+      try {
+        handler(chatError)
+      } catch (handlerError) {
+        console.error('[AnalyzeChat] Error handler failed:', handlerError)
+      }
+    })
+  }
+
+  // Group conversations into threads, most recently active first
+  const threads = computed<ConversationThread[]>(() => {
+    const byId = new Map<string, ConversationThread>()
+    const sorted = [...conversations.value].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    sorted.forEach(conv => {
+      const threadId = conv.threadId || conv.id
+      const thread = byId.get(threadId)
+      if (thread) {
+        thread.lastActivity = conv.timestamp
+        thread.count++
+      } else {
+        byId.set(threadId, { id: threadId, title: conv.question, lastActivity: conv.timestamp, count: 1 })
+      }
+    })
+
+    return [...byId.values()].sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())
+  })
+
+  // Conversations in the active thread, oldest first
+  const threadConversations = computed(() =>
+    conversations.value
+      .filter(conv => (conv.threadId || conv.id) === activeThreadId.value)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  )
+
+  // Start a fresh thread; the next question is asked without prior context
+  const startNewThread = () => {
+    activeThreadId.value = generateId()
+    console.log('[AnalyzeChat] Started new thread')
+  }
+
+  // Continue an existing thread
+  const switchThread = (threadId: string) => {
+    activeThreadId.value = threadId
+  }
+
+  // Resume the most recently active thread after loading history
+  const resumeLatestThread = () => {
+    if (threads.value.length > 0) {
+      activeThreadId.value = threads.value[0].id
+    }
+  }
+
+  // Earlier successful exchanges in a thread, sent as context for follow-ups
+  const buildHistory = (threadId: string, before?: Date): ConversationHistoryEntry[] => {
+    if (historyWindow <= 0) return []
+    return conversations.value
+      .filter(conv => (conv.threadId || conv.id) === threadId && (!before || conv.timestamp < before))
+      .filter(conv => !conv.loading && !conv.error && conv.response)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-historyWindow)
+      .map(conv => ({ question: conv.question, response: conv.response }))
+  }
+
+  // Primary store (database) and device-local fallback
+  const primaryStore: ConversationStore | null =
+    config.store ?? (supabaseClient ? createSupabaseStore({ client: supabaseClient }) : null)
+  const fallbackStore: ConversationStore = config.fallbackStore ?? createLocalStorageStore({ storageKey })
+
+  // Persistent queue of offline questions and failed database saves
+  const outbox = createOutbox(storageKey)
+  const outboxEntries = ref<OutboxEntry[]>(outbox.load())
+
+  // Add or reset the outbox entry for a conversation
+  const enqueue = (type: OutboxEntry['type'], conversationId: string) => {
+    outboxEntries.value = [
+      ...outboxEntries.value.filter(entry => entry.conversationId !== conversationId),
+      { conversationId, type, attempts: 0, nextAttemptAt: Date.now() + syncInterval }
+    ]
+    outbox.save(outboxEntries.value)
+  }
+
+  const dequeue = (conversationId: string) => {
+    if (!outboxEntries.value.some(entry => entry.conversationId === conversationId)) return
+    outboxEntries.value = outboxEntries.value.filter(entry => entry.conversationId !== conversationId)
+    outbox.save(outboxEntries.value)
+  }
+
+  // Check if the primary store is available (remote stores need a signed-in user)
+  const canUseDatabase = () => {
+    return !!(enableDatabase && primaryStore && (!primaryStore.remote || currentUser.value?.id))
+  }
+
+  // Store new conversations are written to
+  const activeStore = () => (canUseDatabase() ? primaryStore! : fallbackStore)
+
+  // Store the loaded history came from; older pages are read from the same one
+  let historyStore: ConversationStore | null = null
+
+  // Oldest conversation the history store returned: the paging cursor. Outbox and fallback conversations
+  // merged into the timeline aren't in that store, so they must not move it
+  let historyCursor: Date | undefined
+
+  // Load conversations from the primary store or the fallback store
+  const loadConversations = async () => {
     isLoading.value = true
+    hasMore.value = false
+    historyCursor = undefined
     try {
-      console.log('[AnalyzeChat] Loading conversations from database...')
-      
-      const { data, error } = await supabaseClient
-        .schema('hf')
-        .from('ai_conversations')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(50)
-      
-      if (error) throw error
-      
-      conversations.value = data.map((conv: any) => ({
-        id: conv.id,
-        question: conv.question,
-        response: conv.response,
-        screenshot: conv.screenshot_url,
-        timestamp: new Date(conv.created_at),
-        loading: false,
-        error: null,
-        userId: conv.user_id,
-        isFromDb: true,
-        api_payload: conv.api_payload  // NEW: Load api_payload
-      }))
-      
-      console.log(`[AnalyzeChat] Loaded ${conversations.value.length} conversations from database`)
+      historyStore = activeStore()
+      conversations.value = await listFromStore(historyStore)
     } catch (error) {
-      console.error('[AnalyzeChat] Error loading from database:', error)
-      // Fallback to localStorage
-      loadFromLocalStorage()
+      const store = activeStore()
+      console.error(`[AnalyzeChat] Error loading from ${store.name}:`, error)
+      reportError(new StorageError(store.name, 'load', `Failed to load conversations from ${store.name}`, { cause: error }))
+      if (store !== fallbackStore) {
+        // Fallback to local storage
+        try {
+          historyStore = fallbackStore
+          conversations.value = await listFromStore(fallbackStore)
+        } catch (fallbackError) {
+          console.error(`[AnalyzeChat] Error loading from ${fallbackStore.name}:`, fallbackError)
+          reportError(new StorageError(fallbackStore.name, 'load', `Failed to load conversations from ${fallbackStore.name}`, { cause: fallbackError }))
+        }
+      }
     } finally {
       isLoading.value = false
     }
+    await mergeOutboxConversations()
+    resumeLatestThread()
   }
 
-  // Load from localStorage
-  const loadFromLocalStorage = () => {
-    try {
-      const saved = localStorage.getItem(storageKey)
-      if (saved) {
-        const parsed = JSON.parse(saved)
-        conversations.value = parsed.map((conv: any) => ({
-          ...conv,
-          timestamp: new Date(conv.timestamp),
-          isFromDb: false
-        }))
-        console.log(`[AnalyzeChat] Loaded ${conversations.value.length} conversations from localStorage`)
+  // Queued conversations only exist in the fallback store; show them alongside database history
+  const mergeOutboxConversations = async () => {
+    if (historyStore === fallbackStore) return
+    for (const entry of outboxEntries.value) {
+      if (conversations.value.some(conv => conv.id === entry.conversationId)) continue
+      try {
+        const conversation = await fallbackStore.get(entry.conversationId)
+        if (conversation) {
+          conversations.value.push(conversation)
+        } else {
+          dequeue(entry.conversationId)
+        }
+      } catch (error) {
+        console.error(`[AnalyzeChat] Failed to read queued conversation from ${fallbackStore.name}:`, error)
       }
+    }
+  }
+
+  // List a page of conversations from a store, oldest first. A full page means there may be more
+  const listFromStore = async (store: ConversationStore, before?: Date): Promise<Conversation[]> => {
+    console.log(`[AnalyzeChat] Loading conversations from ${store.name}...`)
+    const loaded = await store.list({ userId: currentUser.value?.id ?? null, limit: PAGE_SIZE, before })
+    console.log(`[AnalyzeChat] Loaded ${loaded.length} conversations from ${store.name}`)
+    hasMore.value = loaded.length === PAGE_SIZE
+    historyCursor = loaded[loaded.length - 1]?.timestamp ?? historyCursor
+    return loaded.reverse()
+  }
+
+  // Walk a user's conversations in a store newest first, a page at a time
+  const forEachPage = async (store: ConversationStore, userId: string | null, handle: (page: Conversation[]) => Promise<void> | void) => {
+    let before: Date | undefined
+    for (;;) {
+      const page = await store.list({ userId, limit: SCAN_PAGE_SIZE, before })
+      await handle(page)
+      if (page.length < SCAN_PAGE_SIZE) return
+      before = page[page.length - 1].timestamp
+    }
+  }
+
+  // Load the next page of older conversations; returns how many were added
+  const loadOlder = async (): Promise<number> => {
+    if (!historyStore || !hasMore.value || isLoadingOlder.value) return 0
+
+    isLoadingOlder.value = true
+    try {
+      const page = await listFromStore(historyStore, historyCursor)
+      const known = new Set(conversations.value.map(conv => conv.id))
+      const added = page.filter(conv => !known.has(conv.id))
+      conversations.value = [...added, ...conversations.value]
+      return added.length
     } catch (error) {
-      console.error('[AnalyzeChat] Error loading from localStorage:', error)
+      console.error(`[AnalyzeChat] Error loading older conversations from ${historyStore.name}:`, error)
+      reportError(new StorageError(historyStore.name, 'load', `Failed to load older conversations from ${historyStore.name}`, { cause: error }))
+      return 0
+    } finally {
+      isLoadingOlder.value = false
     }
   }
 
-  // Save to localStorage
-  const saveToLocalStorage = () => {
+  // Search questions and responses in the store history was loaded from, newest first
+  const searchConversations = async (search: string, limit = 20): Promise<Conversation[]> => {
+    if (!search.trim()) return []
+    const store = historyStore ?? activeStore()
     try {
-      localStorage.setItem(storageKey, JSON.stringify(conversations.value))
+      return await store.list({ userId: currentUser.value?.id ?? null, limit, search })
     } catch (error) {
-      console.error('[AnalyzeChat] Error saving to localStorage:', error)
+      console.error(`[AnalyzeChat] Search failed in ${store.name}:`, error)
+      reportError(new StorageError(store.name, 'load', `Search failed in ${store.name}`, { cause: error }))
+      return []
     }
   }
 
-  // Upload screenshot to Supabase Storage
-  const uploadScreenshot = async (
-    base64: string,
-    conversationId: string,
-    userId: string
+  // Load older pages until a conversation is in the timeline, then switch to its thread
+  const jumpToConversation = async (conversationId: string): Promise<boolean> => {
+    let conversation = conversations.value.find(conv => conv.id === conversationId)
+    while (!conversation && hasMore.value) {
+      // Nothing new (failed or end of history) - stop rather than spin
+      if (await loadOlder() === 0) break
+      conversation = conversations.value.find(conv => conv.id === conversationId)
+    }
+    if (!conversation) return false
+
+    switchThread(conversation.threadId || conversation.id)
+    return true
+  }
+
+  // Upload an attachment through the store's attachment storage. The screenshot keeps its original path
+  const uploadAttachment = async (
+    attachment: ConversationAttachment,
+    conversation: Conversation,
+    store: ConversationStore
   ): Promise<string> => {
-    if (!supabaseClient) {
-      console.warn('[AnalyzeChat] No Supabase client, cannot upload screenshot')
-      return base64
+    try {
+      console.log(`[AnalyzeChat] Uploading ${attachment.name} to ${store.name}...`)
+      const url = await store.uploadAttachment(attachment.url, {
+        conversationId: conversation.id,
+        userId: currentUser.value?.id ?? null,
+        version: conversation.alternates?.length,
+        attachmentId: attachment.id === SCREENSHOT_ATTACHMENT_ID ? undefined : attachment.id
+      })
+      console.log(`[AnalyzeChat] ${attachment.name} uploaded successfully:`, url.startsWith('data:') ? '(inline)' : url)
+      return url
+    } catch (error) {
+      console.error(`[AnalyzeChat] ${attachment.name} upload failed:`, error)
+      return attachment.url // Fallback to base64
     }
+  }
 
+  // Replace base64 image_url entries in api_payload with uploaded URLs. Images the API
+  // re-encoded can't be matched and fall back to the screenshot URL
+  const replacePayloadImages = (
+    apiPayload: Conversation['api_payload'],
+    uploaded: Map<string, string>,
+    screenshotUrl: string | null
+  ) => {
     try {
-      console.log('[AnalyzeChat] Uploading screenshot to Supabase Storage...')
-
-      // Convert base64 to blob
-      const response = await fetch(base64)
-      const blob = await response.blob()
-
-      // Create file path: {user_id}/{conversation_id}.png
-      const filePath = `${userId}/${conversationId}.png`
-
-      // Upload to Supabase Storage
-      const { error: uploadError } = await supabaseClient.storage
-        .from('ai-screenshots')
-        .upload(filePath, blob, {
-          contentType: 'image/png',
-          upsert: true,
-          cacheControl: '3600'
-        })
+      // Deep clone to avoid mutating original
+      const cleaned = JSON.parse(JSON.stringify(apiPayload))
 
-      if (uploadError) {
-        console.error('[AnalyzeChat] Screenshot upload error:', uploadError)
-        throw uploadError
+      // Navigate to request_sent_to_openrouter.messages and replace image_url
+      if (cleaned && cleaned.request_sent_to_openrouter?.messages) {
+        cleaned.request_sent_to_openrouter.messages.forEach((message: any) => {
+          if (message.content && Array.isArray(message.content)) {
+            message.content.forEach((contentItem: any) => {
+              if (contentItem.type === 'image_url' && contentItem.image_url) {
+                const current = typeof contentItem.image_url === 'string' ? contentItem.image_url : contentItem.image_url.url
+                if (typeof current !== 'string' || !current.startsWith('data:')) return
+                // Replace the base64 data with the uploaded URL
+                contentItem.image_url = {
+                  url: uploaded.get(current) ?? screenshotUrl ?? current,
+                  detail: contentItem.image_url.detail || 'high'
+                }
+              }
+            })
+          }
+        })
       }
 
-      // Get public URL
-      const { data } = supabaseClient.storage
-        .from('ai-screenshots')
-        .getPublicUrl(filePath)
-
-      console.log('[AnalyzeChat] Screenshot uploaded successfully:', data.publicUrl)
-      return data.publicUrl
+      console.log('[AnalyzeChat] Replaced base64 image_url with uploaded URLs in api_payload')
+      return cleaned
     } catch (error) {
-      console.error('[AnalyzeChat] Screenshot upload failed:', error)
-      return base64 // Fallback to base64
+      console.error('[AnalyzeChat] Error cleaning api_payload:', error)
+      // Continue with original payload if cleaning fails
+      return apiPayload
     }
   }
 
-  // Save conversation to database
-  const saveConversationToDatabase = async (conversation: Conversation): Promise<boolean> => {
-    if (!supabaseClient || !user?.id) {
-      console.warn('[AnalyzeChat] Cannot save to database: missing supabaseClient or user')
-      return false
-    }
-
+  // Save conversation to a store, uploading its attachments first. Throws a StorageError on failure
+  const saveConversation = async (conversation: Conversation, store: ConversationStore): Promise<void> => {
     try {
-      console.log('[AnalyzeChat] Saving conversation to database...')
-
-      // Upload screenshot first if it's base64
-      let screenshotUrl = conversation.screenshot
-      if (screenshotUrl && screenshotUrl.startsWith('data:')) {
-        screenshotUrl = await uploadScreenshot(screenshotUrl, conversation.id, user.id)
-      }
+      console.log(`[AnalyzeChat] Saving conversation to ${store.name}...`)
 
-      // Replace base64 image_url in api_payload with screenshot URL
-      let cleanedApiPayload = conversation.api_payload
-      if (cleanedApiPayload && screenshotUrl) {
-        try {
-          // Deep clone to avoid mutating original
-          cleanedApiPayload = JSON.parse(JSON.stringify(cleanedApiPayload))
-          
-          // Navigate to request_sent_to_openrouter.messages and replace image_url
-          if (cleanedApiPayload && cleanedApiPayload.request_sent_to_openrouter?.messages) {
-            cleanedApiPayload.request_sent_to_openrouter.messages.forEach((message: any) => {
-              if (message.content && Array.isArray(message.content)) {
-                message.content.forEach((contentItem: any) => {
-                  if (contentItem.type === 'image_url' && contentItem.image_url) {
-                    // Replace the base64 data with the screenshot URL
-                    contentItem.image_url = {
-                      url: screenshotUrl,
-                      detail: contentItem.image_url.detail || 'high'
-                    }
-                  }
-                })
-              }
-            })
+      // Upload attachments (the screenshot included) that are still base64
+      const uploaded = new Map<string, string>()
+      let attachments = conversation.attachments
+      if (attachments?.some(attachment => attachment.url.startsWith('data:'))) {
+        attachments = []
+        for (const attachment of conversation.attachments!) {
+          if (attachment.url.startsWith('data:')) {
+            const url = await uploadAttachment(attachment, conversation, store)
+            uploaded.set(attachment.url, url)
+            attachments.push({ ...attachment, url })
+          } else {
+            attachments.push(attachment)
           }
-          
-          console.log('[AnalyzeChat] Replaced base64 image_url with screenshot URL in api_payload')
-        } catch (error) {
-          console.error('[AnalyzeChat] Error cleaning api_payload:', error)
-          // Continue with original payload if cleaning fails
-          cleanedApiPayload = conversation.api_payload
         }
       }
 
-      // Insert into database
-      const { error } = await supabaseClient
-        .schema('hf')
-        .from('ai_conversations')
-        .insert({
-          id: conversation.id,
-          user_id: user.id,
-          question: conversation.question,
-          response: conversation.response,
-          screenshot_url: screenshotUrl,
-          api_payload: cleanedApiPayload  // Save cleaned api_payload
-        })
+      let screenshotUrl = conversation.screenshot
+      if (screenshotUrl && screenshotUrl.startsWith('data:')) {
+        screenshotUrl = uploaded.get(screenshotUrl) ?? await uploadAttachment(screenshotAttachment(screenshotUrl), conversation, store)
+      }
 
-      if (error) {
-        console.error('[AnalyzeChat] Database insert error:', error)
-        throw error
+      let apiPayload = conversation.api_payload
+      if (apiPayload && (uploaded.size > 0 || screenshotUrl !== conversation.screenshot)) {
+        apiPayload = replacePayloadImages(apiPayload, uploaded, screenshotUrl)
       }
 
-      // Update local state with uploaded URL
+      const userId = conversation.userId ?? currentUser.value?.id
+      await store.save({
+        ...conversation,
+        screenshot: screenshotUrl,
+        attachments,
+        api_payload: apiPayload,
+        userId,
+        loading: false,
+        streaming: false
+      })
+
+      // Update local state with uploaded URLs
       const index = conversations.value.findIndex(c => c.id === conversation.id)
       if (index !== -1) {
         conversations.value[index].screenshot = screenshotUrl
-        conversations.value[index].isFromDb = true
-        conversations.value[index].userId = user.id
+        conversations.value[index].attachments = attachments
+        conversations.value[index].isFromDb = store.remote
+        conversations.value[index].userId = userId
+        if (store === primaryStore) {
+          conversations.value[index].syncStatus = 'synced'
+        }
       }
 
-      console.log('[AnalyzeChat] Conversation saved to database successfully')
-      return true
+      console.log(`[AnalyzeChat] Conversation saved to ${store.name} successfully`)
     } catch (error) {
-      console.error('[AnalyzeChat] Failed to save conversation to database:', error)
-      return false
+      console.error(`[AnalyzeChat] Failed to save conversation to ${store.name}:`, error)
+      if (error instanceof StorageError) throw error
+      throw new StorageError(store.name, 'save', `Failed to save conversation to ${store.name}`, {
+        conversationId: conversation.id,
+        cause: error
+      })
     }
   }
 
-  // Helper to safely get className as string
-  const getClassNameString = (element: Element): string => {
-    try {
-      // Handle SVGAnimatedString and other non-string className types
-      const className = element.className
-      if (typeof className === 'string') {
-        return className
-      }
-      if (className && typeof className === 'object' && 'baseVal' in className) {
-        return (className as any).baseVal || ''
+  // Save to the primary store, falling back to the device store; reported only when both fail.
+  // Failed database saves are queued and retried by syncOutbox
+  const persistConversation = async (conversation: Conversation) => {
+    if (canUseDatabase()) {
+      try {
+        await saveConversation(conversation, primaryStore!)
+        conversation.syncStatus = 'synced'
+        dequeue(conversation.id)
+        return
+      } catch {
+        console.warn(`[AnalyzeChat] ${primaryStore!.name} save failed, queued in ${fallbackStore.name}`)
+        conversation.syncStatus = 'pending'
+        enqueue('save', conversation.id)
       }
-      return ''
-    } catch {
-      return ''
+    }
+    try {
+      await saveConversation(conversation, fallbackStore)
+    } catch (error) {
+      reportError(error)
     }
   }
 
-  // Create a simplified version of the page for screenshot
-  const createScreenshotClone = (): HTMLElement => {
-    const clone = document.body.cloneNode(true) as HTMLElement
-    
-    // Remove problematic elements
-    const elementsToRemove = clone.querySelectorAll([
-      '.modal-overlay',
-      '[role="dialog"]',
-      '.modal',
-      '.popup',
-      '.dropdown-menu',
-      '.tooltip',
-      'script',
-      'style[data-vite-dev-id]', // Vite dev styles
-      'link[data-vite-dev]'      // Vite dev links
-    ].join(', '))
-    
-    elementsToRemove.forEach(el => el.remove())
-    
-    // Create a container with safe styling
-    const container = document.createElement('div')
-    container.style.cssText = `
-      position: relative;
-      width: ${window.innerWidth}px;
-      height: ${window.innerHeight}px;
-      background: #ffffff;
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      color: #000000;
-      overflow: hidden;
-    `
-    
-    // Move clone content to container
-    while (clone.firstChild) {
-      container.appendChild(clone.firstChild)
+  // Capture providers tried in order; the default chain keeps the old attempt count
+  const providers: CaptureProvider[] = config.captureProviders ?? [
+    ...[createHtml2CanvasProvider(), createDomCloneProvider()].slice(0, Math.max(1, maxScreenshotRetries)),
+    createTextSummaryProvider()
+  ]
+
+  // Provider info for recent captures, so it can be recorded on the conversation they're sent with
+  const recentCaptures = new Map<string, CaptureInfo>()
+  const rememberCapture = (screenshot: string, info: CaptureInfo) => {
+    recentCaptures.set(screenshot, info)
+    if (recentCaptures.size > 5) {
+      recentCaptures.delete(recentCaptures.keys().next().value!)
     }
-    
-    return container
   }
 
-  // Improved screenshot capture with CSS compatibility fixes
-  const captureScreenshot = async (): Promise<string | null> => {
+  // Try each capture provider in turn. Pass a target to capture only a dragged region or a picked element.
+  const captureScreenshot = async (target?: CaptureTarget): Promise<string | null> => {
     if (!captureScreenshots) {
       return null
     }
 
-    for (let attempt = 1; attempt <= maxScreenshotRetries; attempt++) {
+    let lastError: unknown
+    for (const [index, provider] of providers.entries()) {
+      const startedAt = performance.now()
       try {
-        console.log(`[AnalyzeChat] Screenshot attempt ${attempt}/${maxScreenshotRetries}`)
-        
-        // Method 1: Try with original body but safer options
-        if (attempt === 1) {
-          // Hide modals temporarily
-          const modalsAndOverlays = document.querySelectorAll([
-            '.modal-overlay',
-            '[role="dialog"]',
-            '.modal',
-            '.popup',
-            '.dropdown-menu',
-            '.tooltip'
-          ].join(', ')) as NodeListOf<HTMLElement>
-          
-          const originalDisplayValues: string[] = []
-          
-          modalsAndOverlays.forEach((element, index) => {
-            originalDisplayValues[index] = element.style.display
-            element.style.display = 'none'
-          })
-          
-          await new Promise(resolve => setTimeout(resolve, 100))
-          
-          try {
-            const canvas = await html2canvas(document.body, {
-              height: window.innerHeight,
-              width: window.innerWidth,
-              scrollX: 0,
-              scrollY: 0,
-              useCORS: true,
-              allowTaint: false,
-              scale: 1.5,
-              logging: false,
-              imageTimeout: 15000,
-              removeContainer: true,
-              backgroundColor: '#ffffff',
-              foreignObjectRendering: false,
-              ignoreElements: (element) => {
-                try {
-                  const className = getClassNameString(element)
-                  
-                  return (
-                    className.includes('modal') ||
-                    className.includes('overlay') ||
-                    className.includes('analyze-chat') ||
-                    className.includes('dropdown') ||
-                    className.includes('tooltip') ||
-                    element.getAttribute('role') === 'dialog'
-                  )
-                } catch (error) {
-                  console.warn('[AnalyzeChat] Error checking element in ignoreElements:', error)
-                  return false
-                }
-              },
-              onclone: (clonedDoc) => {
-                // Remove problematic CSS that html2canvas can't parse
-                try {
-                  console.log('[AnalyzeChat] Cleaning CSS in cloned document...')
-                  
-                  // Get all style elements
-                  const styles = clonedDoc.querySelectorAll('style')
-                  console.log(`[AnalyzeChat] Found ${styles.length} style elements`)
-                  
-                  styles.forEach((style, index) => {
-                    if (style.textContent) {
-                      const originalLength = style.textContent.length
-                      
-                      // More aggressive replacement of modern CSS color functions
-                      style.textContent = style.textContent
-                        // Remove color() function with any content including nested parentheses
-                        .replace(/color\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
-                        .replace(/color-mix\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
-                        .replace(/lab\s*\([^)]*\)/gi, '#000000')
-                        .replace(/lch\s*\([^)]*\)/gi, '#000000')
-                        .replace(/oklab\s*\([^)]*\)/gi, '#000000')
-                        .replace(/oklch\s*\([^)]*\)/gi, '#000000')
-                        // Remove any remaining color() functions even if malformed
-                        .replace(/color\s*\(/gi, 'rgb(0,0,0 /*')
-                      
-                      const newLength = style.textContent.length
-                      if (originalLength !== newLength) {
-                        console.log(`[AnalyzeChat] Style ${index}: cleaned ${originalLength - newLength} chars`)
-                      }
-                    }
-                  })
-                  
-                  // Also check and clean inline styles
-                  const elementsWithStyle = clonedDoc.querySelectorAll('[style]')
-                  elementsWithStyle.forEach(element => {
-                    const styleAttr = element.getAttribute('style')
-                    if (styleAttr && /color\s*\(/i.test(styleAttr)) {
-                      const cleaned = styleAttr
-                        .replace(/color\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
-                        .replace(/lab\s*\([^)]*\)/gi, '#000000')
-                        .replace(/lch\s*\([^)]*\)/gi, '#000000')
-                      element.setAttribute('style', cleaned)
-                      console.log('[AnalyzeChat] Cleaned inline style')
-                    }
-                  })
-                  
-                  console.log('[AnalyzeChat] CSS cleaning completed')
-                } catch (error) {
-                  console.error('[AnalyzeChat] Error cleaning CSS:', error)
-                }
-              }
-            })
-            
-            // Restore modals
-            modalsAndOverlays.forEach((element, index) => {
-              element.style.display = originalDisplayValues[index] || ''
-            })
-            
-            //const screenshot = canvas.toDataURL('image/jpeg', screenshotQuality)
-            const screenshot = canvas.toDataURL('image/png')
-            console.log(`[AnalyzeChat] Screenshot captured successfully on attempt ${attempt}`)
-            return screenshot
-            
-          } catch (error) {
-            // Restore modals even on error
-            modalsAndOverlays.forEach((element, index) => {
-              element.style.display = originalDisplayValues[index] || ''
-            })
-            throw error
-          }
+        console.log(`[AnalyzeChat] Capturing with ${provider.name} (${index + 1}/${providers.length})`)
+        const result = await provider.capture({ target, redactor })
+        if (!result) {
+          console.log(`[AnalyzeChat] ${provider.name} had nothing to capture`)
+          continue
         }
-        
-        // Method 2: Fallback with DOM cloning (safer but less accurate)
-        if (attempt === 2) {
-          console.log('[AnalyzeChat] Trying fallback method with DOM cloning...')
-          
-          const clonedElement = createScreenshotClone()
-          
-          // Temporarily add to document for rendering
-          clonedElement.style.position = 'fixed'
-          clonedElement.style.top = '-10000px'
-          clonedElement.style.left = '-10000px'
-          clonedElement.style.zIndex = '-1000'
-          document.body.appendChild(clonedElement)
-          
-          try {
-            const canvas = await html2canvas(clonedElement, {
-              height: window.innerHeight,
-              width: window.innerWidth,
-              useCORS: true,
-              allowTaint: false,
-              scale: 1.0,
-              logging: false,
-              imageTimeout: 12000,
-              backgroundColor: '#ffffff',
-              foreignObjectRendering: false,
-              onclone: (clonedDoc) => {
-                // Remove problematic CSS
-                try {
-                  console.log('[AnalyzeChat] Cleaning CSS in fallback cloned document...')
-                  const styles = clonedDoc.querySelectorAll('style')
-                  styles.forEach(style => {
-                    if (style.textContent) {
-                      style.textContent = style.textContent
-                        .replace(/color\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
-                        .replace(/color-mix\s*\([^)]*(?:\([^)]*\)[^)]*)*\)/gi, '#000000')
-                        .replace(/lab\s*\([^)]*\)/gi, '#000000')
-                        .replace(/lch\s*\([^)]*\)/gi, '#000000')
-                        .replace(/oklab\s*\([^)]*\)/gi, '#000000')
-                        .replace(/oklch\s*\([^)]*\)/gi, '#000000')
-                        .replace(/color\s*\(/gi, 'rgb(0,0,0 /*')
-                    }
-                  })
-                  console.log('[AnalyzeChat] Fallback CSS cleaning completed')
-                } catch (error) {
-                  console.error('[AnalyzeChat] Error cleaning CSS in fallback:', error)
-                }
-              }
-            })
-            
-            document.body.removeChild(clonedElement)
-            
-            //const screenshot = canvas.toDataURL('image/jpeg', screenshotQuality - 0.1)
-            const screenshot = canvas.toDataURL('image/png')
-            console.log(`[AnalyzeChat] Screenshot captured with fallback method`)
-            return screenshot
-            
-          } catch (error) {
-            if (document.body.contains(clonedElement)) {
-              document.body.removeChild(clonedElement)
-            }
-            throw error
-          }
+
+        const screenshot = typeof result === 'string' ? result : encodeCanvas(result, imageEncoding)
+        const durationMs = Math.round(performance.now() - startedAt)
+        console.log(`[AnalyzeChat] Screenshot captured with ${provider.name} in ${durationMs} ms (${Math.round(dataUrlBytes(screenshot) / 1024)} KB)`)
+
+        if (provider.fallback) {
+          reportError(new ScreenshotError('Screenshot capture failed, a text summary of the page is used instead', { cause: lastError }))
         }
-        
+        rememberCapture(screenshot, { provider: provider.name, durationMs })
+        return screenshot
       } catch (error) {
-        console.error(`[AnalyzeChat] Screenshot attempt ${attempt} failed:`, error)
-        
-        if (attempt === maxScreenshotRetries) {
-          console.error('[AnalyzeChat] All screenshot attempts failed')
-          return await createTextBasedScreenshot()
+        console.error(`[AnalyzeChat] ${provider.name} capture failed:`, error)
+        lastError = error
+        if (index < providers.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 300))
         }
-        
-        await new Promise(resolve => setTimeout(resolve, 300))
       }
     }
-    
+
+    console.error('[AnalyzeChat] All screenshot providers failed')
+    reportError(new ScreenshotError('Screenshot capture failed', { cause: lastError }))
     return null
   }
 
-  // Fallback: Create a text-based description of the page
-  const createTextBasedScreenshot = async (): Promise<string> => {
+  // Attach a screenshot captured earlier (e.g. to compare two views in one question)
+  const createScreenshotAttachment = (screenshot: string): ConversationAttachment => ({
+    id: generateId().slice(0, 8),
+    kind: 'image',
+    source: 'screenshot',
+    name: 'Screenshot',
+    mimeType: mimeTypeOf(screenshot) ?? 'image/png',
+    url: screenshot,
+    size: dataUrlBytes(screenshot),
+    capture: recentCaptures.get(screenshot)
+  })
+
+  // Turn a picked, dropped or pasted file into an attachment. Images are re-encoded with the
+  // screenshot settings; text files are read so they can be sent to the model.
+  // Throws an AnalyzeChatError ('attachment') for unsupported or oversized files
+  const createAttachment = async (file: File, source: 'file' | 'paste' = 'file'): Promise<ConversationAttachment> => {
+    const name = file.name || (source === 'paste' ? 'Pasted image' : 'Attachment')
+    const mimeType = attachableType(file)
+    if (!mimeType) {
+      throw new AnalyzeChatError('attachment', `${name} can't be attached. Attach images, CSV, JSON or text files`)
+    }
+
     try {
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      
-      if (!ctx) return ''
-      
-      canvas.width = 800
-      canvas.height = 600
-      
-      // White background
-      ctx.fillStyle = '#ffffff'
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-      
-      // Add page info as text
-      ctx.fillStyle = '#000000'
-      ctx.font = '16px Arial'
-      ctx.fillText(`Page: ${window.location.pathname}`, 20, 40)
-      ctx.fillText(`Title: ${document.title}`, 20, 70)
-      ctx.fillText(`Time: ${new Date().toLocaleString()}`, 20, 100)
-      ctx.fillText('Screenshot capture failed - text summary provided', 20, 140)
-      
-      // Try to get some visible text content
-      const textContent = document.body.innerText.slice(0, 500)
-      const lines = textContent.split('\n').slice(0, 20)
-      
-      ctx.font = '12px Arial'
-      lines.forEach((line, index) => {
-        if (line.trim()) {
-          ctx.fillText(line.trim().slice(0, 80), 20, 180 + (index * 20))
-        }
-      })
-      
-      return canvas.toDataURL('image/jpeg', 0.8)
+      if (mimeType.startsWith('image/')) {
+        const url = encodeCanvas(await loadImageCanvas(await readAsDataUrl(file)), imageEncoding)
+        return { id: generateId().slice(0, 8), kind: 'image', source, name, mimeType: mimeTypeOf(url) ?? mimeType, url, size: dataUrlBytes(url) }
+      }
+
+      if (file.size > maxAttachmentBytes) {
+        throw new AnalyzeChatError('attachment', `${name} is ${formatBytes(file.size)}; files up to ${formatBytes(maxAttachmentBytes)} can be attached`)
+      }
+      // Re-typed so files recognized by extension get a meaningful data URL
+      const url = await readAsDataUrl(new Blob([file], { type: mimeType }))
+      return { id: generateId().slice(0, 8), kind: 'file', source, name, mimeType, url, size: file.size, text: await file.text() }
     } catch (error) {
-      console.error('[AnalyzeChat] Text-based screenshot also failed:', error)
-      return ''
+      if (error instanceof AnalyzeChatError) throw error
+      throw new AnalyzeChatError('attachment', `${name} could not be read`, { cause: error })
     }
   }
 
-  // Send question to AI with screenshot
-  const askQuestion = async (question: string, preCapturedScreenshot?: string | null) => {
-    if (isProcessing.value || !question.trim()) return
-    
-    console.log('[AnalyzeChat] Starting AI question process...')
-    isProcessing.value = true
-    
-    // Create conversation entry with loading state (use UUID)
-    const conversation: Conversation = {
-      id: crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random()}`,
-      question: question.trim(),
-      response: '',
-      screenshot: null,
-      timestamp: new Date(),
-      loading: true,
-      error: null,
-      userId: user?.id
+  // Point the screenshot and its 'screenshot' attachment at a new capture, or remove both
+  const setScreenshot = (conversation: Conversation, screenshot: string | null) => {
+    const others = extraAttachments(conversation.attachments)
+    const current = conversation.attachments?.find(attachment => attachment.id === SCREENSHOT_ATTACHMENT_ID)
+    conversation.screenshot = screenshot
+    if (screenshot) {
+      const attachment = current?.url === screenshot ? current : screenshotAttachment(screenshot, conversation.capture)
+      conversation.attachments = [attachment, ...others]
+    } else {
+      conversation.attachments = others.length > 0 ? others : undefined
     }
-    
-    // Add to UI immediately for instant feedback
-    conversations.value.push(conversation)
-    
+  }
+
+  // Extra attachments as sent to the API: images by URL, files as masked (and possibly truncated) text
+  const toPayloadAttachment = (attachment: ConversationAttachment) => {
+    const { name, kind, mimeType } = attachment
+    if (kind === 'image') {
+      return { name, kind, mimeType, url: attachment.url }
+    }
+    const text = attachment.text ?? ''
+    return {
+      name,
+      kind,
+      mimeType,
+      text: redactor.maskText(text.length > MAX_ATTACHMENT_TEXT ? `${text.slice(0, MAX_ATTACHMENT_TEXT)}\n… (truncated)` : text),
+      truncated: text.length > MAX_ATTACHMENT_TEXT || undefined
+    }
+  }
+
+  // Collect tables, tagged elements and app state to send alongside the screenshot
+  const collectPageData = async (): Promise<PageData | undefined> => {
+    let pageData: PageData | undefined
+
+    if (shouldExtractPageData) {
+      try {
+        pageData = extractPageData(document.body, redactor, pageDataBudget)
+        console.log(`[AnalyzeChat] Extracted ${pageData.tables.length} tables and ${pageData.elements.length} context elements`)
+      } catch (error) {
+        console.error('[AnalyzeChat] Page data extraction failed:', error)
+      }
+    }
+
+    if (contextProvider) {
+      try {
+        const app = await contextProvider()
+        if (app) {
+          pageData = { tables: [], elements: [], truncated: false, ...pageData, app: redactor.maskValue(app) }
+        }
+      } catch (error) {
+        console.error('[AnalyzeChat] contextProvider failed:', error)
+      }
+    }
+
+    if (!pageData || (!pageData.app && pageData.tables.length === 0 && pageData.elements.length === 0)) {
+      return undefined
+    }
+    return pageData
+  }
+
+  // Wait before retrying; rejects as soon as the request is aborted
+  const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+
+  // Track an in-flight request so it can be cancelled or timed out
+  const createActiveRequest = (conversationId: string): ActiveRequest => {
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const request: ActiveRequest = {
+      conversationId,
+      controller,
+      reason: null,
+      armTimeout: () => {
+        clearTimeout(timer)
+        if (requestTimeout > 0) {
+          timer = setTimeout(() => {
+            request.reason = 'timeout'
+            controller.abort()
+          }, requestTimeout)
+        }
+      },
+      dispose: () => clearTimeout(timer)
+    }
+    return request
+  }
+
+  // POST to the AI API, retrying network failures and 5xx responses with exponential backoff
+  const postWithRetry = async (body: string, request: ActiveRequest): Promise<Response> => {
+    const { signal } = request.controller
+
+    for (let attempt = 0; ; attempt++) {
+      request.armTimeout()
+      try {
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(streamResponses ? { Accept: 'text/event-stream, application/x-ndjson, application/json' } : {}),
+            ...headers
+          },
+          body,
+          signal
+        })
+
+        if (response.status < 500 || attempt >= maxRetries) {
+          return response
+        }
+        console.warn(`[AnalyzeChat] AI API returned ${response.status}, retrying (${attempt + 1}/${maxRetries})...`)
+      } catch (error) {
+        if (signal.aborted || attempt >= maxRetries) throw error
+        console.warn(`[AnalyzeChat] Network error, retrying (${attempt + 1}/${maxRetries})...`, error)
+      }
+
+      await wait(retryDelay * 2 ** attempt, signal)
+    }
+  }
+
+  // Capture (if needed), send and persist one conversation entry
+  const runConversation = async (
+    conversation: Conversation,
+    preCapturedScreenshot: string | null | undefined,
+    history: ConversationHistoryEntry[]
+  ) => {
+    const request = createActiveRequest(conversation.id)
+    activeRequest = request
+
     try {
       console.log('[AnalyzeChat] Capturing screenshot...')
       
@@ -576,85 +792,450 @@ export function useAnalyzeChat(config: AnalyzeChatConfig = {}) {
       const screenshot = preCapturedScreenshot !== undefined ? preCapturedScreenshot : await captureScreenshot()
       
       if (screenshot) {
-        conversation.screenshot = screenshot
+        conversation.capture = recentCaptures.get(screenshot) ?? conversation.capture
+        setScreenshot(conversation, screenshot)
         console.log('[AnalyzeChat] Screenshot captured and stored successfully')
       } else if (captureScreenshots) {
         console.warn('[AnalyzeChat] Screenshot capture failed, proceeding without screenshot')
       }
+
+      // Cancelled while the screenshot was being captured
+      if (request.controller.signal.aborted) {
+        throw new NetworkError('Request cancelled', { code: 'cancelled', conversationId: conversation.id })
+      }
+
+      // No point trying the API without a connection
+      if (!navigator.onLine) {
+        await queueQuestion(conversation)
+        return
+      }
       
       // Prepare the request payload
+      const pageData = await collectPageData()
+      const extras = extraAttachments(conversation.attachments)
+      
+      // All free text is masked with the configured redaction patterns
       const payload = {
-        question: conversation.question,
+        question: redactor.maskText(conversation.question),
+        history: history.length > 0
+          ? history.map(entry => ({ question: redactor.maskText(entry.question), response: redactor.maskText(entry.response) }))
+          : undefined,
+        threadId: conversation.threadId,
         screenshot: conversation.screenshot,
         timestamp: conversation.timestamp.toISOString(),
-        url: window.location.href,
+        url: redactor.maskText(window.location.href),
         userAgent: navigator.userAgent,
-        pageTitle: document.title,
-        pageText: screenshot ? undefined : document.body.innerText.slice(0, 1000)
+        pageTitle: redactor.maskText(document.title),
+        pageText: conversation.screenshot ? undefined : redactor.extractText(document.body, 1000),
+        pageData,
+        attachments: extras.length > 0 ? extras.map(toPayloadAttachment) : undefined,
+        model: conversation.model,
+        parameters: Object.keys(defaultParameters).length > 0 ? defaultParameters : undefined,
+        stream: streamResponses || undefined
       }
-      
+
       console.log('[AnalyzeChat] Sending request to AI API...')
-      
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers
-        },
-        body: JSON.stringify(payload)
-      })
+
+      // Latency covers retries and the whole stream, as experienced by the user
+      const startedAt = performance.now()
+      const response = await postWithRetry(JSON.stringify(payload), request)
       
       // Check if API returned 200 OK
       if (!response.ok) {
-        const errorText = await response.text()
-        const errorMsg = `AI API Error: ${response.status} - ${errorText}`
-        console.error('[AnalyzeChat]', errorMsg)
-        
-        // Show alert to user
-        alert(`❌ Failed to get AI response\n\n${errorMsg}\n\nPlease try again.`)
-        
-        throw new Error(errorMsg)
+        throw new HttpError(response.status, await response.text(), { conversationId: conversation.id })
       }
       
-      const data = await response.json()
-      console.log('[AnalyzeChat] AI response received:', data)
-      
-      conversation.response = data.response || 'Sorry, I could not process your request.'
-      conversation.api_payload = data.api_payload || null  // NEW: Capture api_payload
-      conversation.loading = false
-      
-      // ✅ ONLY save to database if API returned 200 OK
-      if (canUseDatabase()) {
-        const saved = await saveConversationToDatabase(conversation)
-        if (!saved) {
-          console.warn('[AnalyzeChat] Database save failed, falling back to localStorage')
-          saveToLocalStorage()
-        }
+      let suggestions: unknown
+      if (isStreamingResponse(response)) {
+        console.log('[AnalyzeChat] Reading streamed AI response...')
+
+        await readResponseStream(response, (chunk) => {
+          // The timeout applies to gaps between chunks, not the whole stream
+          request.armTimeout()
+
+          if (chunk.error) {
+            throw new HttpError(0, chunk.error, { conversationId: conversation.id })
+          }
+          if (chunk.response !== undefined) {
+            conversation.response = chunk.response
+          } else if (chunk.delta) {
+            conversation.response += chunk.delta
+          }
+          if (chunk.api_payload) {
+            conversation.api_payload = chunk.api_payload
+          }
+          if (chunk.suggestions) {
+            suggestions = chunk.suggestions
+          }
+          // Swap the "Thinking..." indicator for the live text on the first chunk
+          if (conversation.loading && conversation.response) {
+            conversation.loading = false
+            conversation.streaming = true
+          }
+        })
+
+        console.log('[AnalyzeChat] AI response stream completed')
+
+        conversation.response = conversation.response || 'Sorry, I could not process your request.'
+        conversation.loading = false
+        conversation.streaming = false
       } else {
-        // Save to localStorage if database not available
-        saveToLocalStorage()
+        const data = await response.json()
+        console.log('[AnalyzeChat] AI response received:', data)
+
+        conversation.response = data.response || 'Sorry, I could not process your request.'
+        conversation.api_payload = data.api_payload || null  // NEW: Capture api_payload
+        suggestions = data.suggestions
+        conversation.loading = false
       }
+      applySuggestions(conversation, suggestions)
+      conversation.latencyMs = Math.round(performance.now() - startedAt)
+      // Without a picker the API chooses; record what it reports
+      conversation.model = conversation.model || conversation.api_payload?.request_sent_to_openrouter?.model
+      request.dispose()
+      
+      // ✅ ONLY save to database if API returned 200 OK
+      await persistConversation(conversation)
       
     } catch (error) {
       console.error('[AnalyzeChat] Error in askQuestion:', error)
       
-      const errorMessage = error instanceof Error ? error.message : 'Failed to get response. Please try again.'
-      conversation.error = errorMessage
+      const conversationId = conversation.id
+      const chatError = request.reason === 'cancelled'
+        ? new NetworkError('Request cancelled', { code: 'cancelled', conversationId, cause: error })
+        : request.reason === 'timeout'
+          ? new NetworkError(`Request timed out after ${Math.round(requestTimeout / 1000)}s`, { code: 'timeout', conversationId, cause: error })
+          : error instanceof TypeError
+            // fetch rejects with a TypeError when the API can't be reached
+            ? new NetworkError(`Could not reach the AI service: ${error.message}`, { conversationId, cause: error })
+            : toAnalyzeChatError(error, { conversationId })
+      conversation.error = chatError.message
+      conversation.errorCode = chatError.code
       conversation.loading = false
+      conversation.streaming = false
       
-      // Show alert to user for API errors
-      if (!conversation.error.includes('API Error')) {
-        alert(`❌ Error: ${errorMessage}`)
+      // Offline: hold the question until connectivity returns instead of failing it
+      if (chatError.code === 'network' && !navigator.onLine) {
+        await queueQuestion(conversation)
+        return
+      }
+
+      // Cancelling is the user's own doing, not an error to report
+      if (chatError.code !== 'cancelled') {
+        reportError(chatError)
       }
       
-      // Save error state to localStorage (not database)
-      saveToLocalStorage()
+      // Save error state to the fallback store (not database)
+      await saveConversation(conversation, fallbackStore).catch(reportError)
+    } finally {
+      request.dispose()
+      if (activeRequest === request) {
+        activeRequest = null
+      }
+    }
+  }
+
+  // Follow-up questions sent by the API, or else a trailing "Follow-up questions" list in the answer.
+  // The answer is kept as it came; the list is only hidden when the chips are shown
+  const applySuggestions = (conversation: Conversation, fromApi: unknown) => {
+    conversation.suggestions = normalizeSuggestions(fromApi) ?? extractSuggestions(conversation.response)?.suggestions
+  }
+
+  // Keep a question (with its screenshot) in the outbox until the browser is back online
+  const queueQuestion = async (conversation: Conversation) => {
+    console.log('[AnalyzeChat] Offline, queueing question')
+    conversation.loading = false
+    conversation.streaming = false
+    conversation.error = null
+    conversation.errorCode = undefined
+    conversation.syncStatus = 'pending'
+    enqueue('question', conversation.id)
+    await saveConversation(conversation, fallbackStore).catch(reportError)
+  }
+
+  // Forget the device copy of a conversation the database has; a leftover copy is only wasted space
+  const removeLocalCopy = (conversationId: string) =>
+    fallbackStore.delete(conversationId).catch(error => {
+      console.warn(`[AnalyzeChat] Failed to remove synced conversation from ${fallbackStore.name}:`, error)
+    })
+
+  // Push one outbox entry; throws when it should be attempted again later
+  const syncEntry = async (entry: OutboxEntry): Promise<void> => {
+    let conversation = conversations.value.find(conv => conv.id === entry.conversationId)
+    if (!conversation) {
+      const stored = await fallbackStore.get(entry.conversationId)
+      if (!stored) return
+      conversations.value.push(stored)
+      conversation = conversations.value.find(conv => conv.id === entry.conversationId)!
+    }
+
+    if (entry.type === 'question') {
+      // Answered (or failed for good) inside runConversation; stays queued if we went offline again
+      dequeue(entry.conversationId)
+      isProcessing.value = true
+      conversation.loading = true
+      conversation.syncStatus = undefined
+      try {
+        await runConversation(conversation, conversation.screenshot, buildHistory(conversation.threadId || conversation.id, conversation.timestamp))
+      } finally {
+        isProcessing.value = false
+      }
+      // The answer is in the database now; the unanswered copy queueQuestion kept on the device isn't needed
+      if (conversation.syncStatus === 'synced') {
+        await removeLocalCopy(conversation.id)
+      }
+      return
+    }
+
+    await saveConversation(conversation, primaryStore!)
+    conversation.syncStatus = 'synced'
+    await removeLocalCopy(conversation.id)
+  }
+
+
+  // Send queued questions and retry failed saves. Entries that already failed
+  // MAX_SYNC_ATTEMPTS times are only retried when forced (e.g. from the UI)
+  const syncOutbox = async (options: { force?: boolean } = {}) => {
+    if (isSyncing.value || !navigator.onLine || outboxEntries.value.length === 0) return
+    isSyncing.value = true
+
+    try {
+      for (const entry of [...outboxEntries.value]) {
+        const due = entry.nextAttemptAt <= Date.now() && entry.attempts < MAX_SYNC_ATTEMPTS
+        if (!options.force && !due) continue
+        // Questions wait for the one being asked to finish; saves wait for a signed-in user
+        if (entry.type === 'question' && isProcessing.value) continue
+        if (entry.type === 'save' && !canUseDatabase()) continue
+
+        let done = false
+        try {
+          await syncEntry(entry)
+          done = true
+        } catch (error) {
+          console.warn(`[AnalyzeChat] Sync attempt for ${entry.conversationId} failed:`, error)
+        }
+
+        if (done) {
+          if (entry.type === 'save') dequeue(entry.conversationId)
+          continue
+        }
+
+        // Back off exponentially; give up on automatic attempts after MAX_SYNC_ATTEMPTS
+        const attempts = entry.attempts + 1
+        outboxEntries.value = outboxEntries.value.map(current => current.conversationId === entry.conversationId
+          ? { ...current, attempts, nextAttemptAt: Date.now() + Math.min(syncInterval * 2 ** attempts, MAX_SYNC_BACKOFF) }
+          : current
+        )
+        outbox.save(outboxEntries.value)
+
+        const conversation = conversations.value.find(conv => conv.id === entry.conversationId)
+        if (conversation) {
+          conversation.syncStatus = attempts >= MAX_SYNC_ATTEMPTS ? 'failed' : 'pending'
+          if (attempts === MAX_SYNC_ATTEMPTS) {
+            reportError(new StorageError(primaryStore?.name ?? fallbackStore.name, 'save', 'A conversation could not be synced and is kept on this device', {
+              conversationId: conversation.id
+            }))
+          }
+        }
+      }
+    } finally {
+      isSyncing.value = false
+    }
+  }
+
+  // Sync when connectivity returns and on a schedule
+  const handleOnline = () => {
+    console.log('[AnalyzeChat] Back online, syncing outbox')
+    syncOutbox({ force: true })
+  }
+  window.addEventListener('online', handleOnline)
+  const syncTimer = syncInterval > 0 ? setInterval(() => syncOutbox(), syncInterval) : undefined
+
+  // Stop background sync when the owning component or effect scope goes away
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      window.removeEventListener('online', handleOnline)
+      clearInterval(syncTimer)
+    })
+  }
+
+  // Send question to AI with screenshot and any extra attachments
+  const askQuestion = async (
+    question: string,
+    preCapturedScreenshot?: string | null,
+    attachments: ConversationAttachment[] = []
+  ) => {
+    if (isProcessing.value || !question.trim()) return
+    if (attachments.length > maxAttachments) {
+      console.warn(`[AnalyzeChat] Only the first ${maxAttachments} attachments are sent`)
     }
     
+    console.log('[AnalyzeChat] Starting AI question process...')
+    isProcessing.value = true
+
+    // Collect thread context before the new entry joins the thread
+    const history = buildHistory(activeThreadId.value)
+    
+    // Create conversation entry with loading state (use UUID).
+    // Reactive so streamed chunks show up in the timeline as they arrive.
+    const conversation = reactive<Conversation>({
+      id: generateId(),
+      question: question.trim(),
+      response: '',
+      screenshot: null,
+      timestamp: new Date(),
+      loading: true,
+      error: null,
+      threadId: activeThreadId.value,
+      userId: currentUser.value?.id,
+      model: selectedModel.value ?? undefined,
+      attachments: attachments.length > 0 ? attachments.slice(0, maxAttachments) : undefined
+    }) as Conversation
+    
+    // Add to UI immediately for instant feedback
+    conversations.value.push(conversation)
+    
+    await runConversation(conversation, preCapturedScreenshot, history)
+    
     isProcessing.value = false
     console.log('[AnalyzeChat] AI question process completed')
   }
 
+  // Ask an existing conversation's question again, updating its timeline entry in place.
+  // Only earlier messages in the thread are sent as context
+  const rerunConversation = async (conversation: Conversation, screenshot: string | null) => {
+    isProcessing.value = true
+
+    const history = buildHistory(conversation.threadId || conversation.id, conversation.timestamp)
+    conversation.response = ''
+    if (screenshot !== conversation.screenshot) {
+      conversation.capture = undefined
+    }
+    setScreenshot(conversation, screenshot)
+    conversation.error = null
+    conversation.errorCode = undefined
+    conversation.syncStatus = undefined
+    conversation.loading = true
+    conversation.api_payload = undefined
+    conversation.latencyMs = undefined
+    conversation.feedback = undefined
+    conversation.suggestions = undefined
+
+    await runConversation(conversation, screenshot, history)
+
+    // Drop the stale error copy once the rerun reached the database
+    if (!conversation.error && conversation.isFromDb && canUseDatabase()) {
+      fallbackStore.delete(conversation.id).catch(error => {
+        console.warn(`[AnalyzeChat] Failed to remove rerun conversation from ${fallbackStore.name}:`, error)
+      })
+    }
+
+    isProcessing.value = false
+  }
+
+  // Keep the current answer as an alternate before it is replaced (failed answers aren't kept)
+  const archiveVersion = (conversation: Conversation) => {
+    if (conversation.error || !conversation.response) return
+    conversation.alternates = [
+      ...(conversation.alternates ?? []),
+      {
+        question: conversation.question,
+        response: conversation.response,
+        screenshot: conversation.screenshot,
+        attachments: conversation.attachments,
+        model: conversation.model,
+        latencyMs: conversation.latencyMs,
+        feedback: conversation.feedback,
+        suggestions: conversation.suggestions,
+        replacedAt: new Date()
+      }
+    ]
+  }
+
+  // Answered conversations that can be regenerated or edited right now
+  const findAnswered = (conversationId: string) => {
+    if (isProcessing.value) return undefined
+    const conversation = conversations.value.find(conv => conv.id === conversationId)
+    return conversation && !conversation.loading && !conversation.streaming ? conversation : undefined
+  }
+
+  // Re-send a failed question with the same screenshot
+  const retryConversation = async (conversationId: string) => {
+    if (isProcessing.value) return
+
+    const conversation = conversations.value.find(conv => conv.id === conversationId)
+    if (!conversation || !conversation.error) return
+
+    console.log('[AnalyzeChat] Retrying question...')
+    await rerunConversation(conversation, conversation.screenshot)
+    console.log('[AnalyzeChat] Retry completed')
+  }
+
+  // Ask for a new answer to the same question with the selected model, keeping the current one as an alternate
+  const regenerateConversation = async (conversationId: string) => {
+    const conversation = findAnswered(conversationId)
+    if (!conversation) return
+
+    console.log('[AnalyzeChat] Regenerating response...')
+    archiveVersion(conversation)
+    conversation.model = selectedModel.value ?? conversation.model
+    await rerunConversation(conversation, conversation.screenshot)
+    console.log('[AnalyzeChat] Regenerate completed')
+  }
+
+  // Change a past question and ask it again. Pass a screenshot to replace the original, or null to send none.
+  // The previous question and answer are kept as an alternate
+  const editConversation = async (conversationId: string, question: string, screenshot?: string | null) => {
+    const conversation = findAnswered(conversationId)
+    if (!conversation || !question.trim()) return
+
+    console.log('[AnalyzeChat] Resending edited question...')
+    archiveVersion(conversation)
+    conversation.question = question.trim()
+    conversation.model = selectedModel.value ?? conversation.model
+    await rerunConversation(conversation, screenshot === undefined ? conversation.screenshot : screenshot)
+    console.log('[AnalyzeChat] Edited question completed')
+  }
+
+  // Remove one conversation from the timeline and every store holding it (database row and screenshot included)
+  const deleteConversation = async (conversationId: string): Promise<boolean> => {
+    const index = conversations.value.findIndex(conv => conv.id === conversationId)
+    const conversation = conversations.value[index]
+    if (!conversation || conversation.loading || conversation.streaming) return false
+
+    conversations.value.splice(index, 1)
+    let store = fallbackStore
+    try {
+      if (conversation.isFromDb) {
+        if (!canUseDatabase()) {
+          throw new Error('Sign in to delete conversations saved to your account')
+        }
+        store = primaryStore!
+        await store.delete(conversationId)
+        store = fallbackStore
+      }
+      // Error copies and queued conversations live on the device
+      await fallbackStore.delete(conversationId)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to delete conversation from ${store.name}:`, error)
+      conversations.value.splice(Math.min(index, conversations.value.length), 0, conversation)
+      reportError(new StorageError(store.name, 'delete', `Failed to delete conversation from ${store.name}`, { conversationId, cause: error }))
+      return false
+    }
+
+    dequeue(conversationId)
+    console.log(`[AnalyzeChat] Conversation ${conversationId} deleted`)
+    return true
+  }
+
+  // Abort the in-flight question
+  const cancelQuestion = () => {
+    if (!activeRequest) return
+    console.log('[AnalyzeChat] Cancelling in-flight question...')
+    activeRequest.reason = 'cancelled'
+    activeRequest.controller.abort()
+  }
+
   // Force screenshot capture for testing
   const testScreenshot = async () => {
     console.log('[AnalyzeChat] Testing screenshot capture...')
@@ -664,7 +1245,7 @@ export function useAnalyzeChat(config: AnalyzeChatConfig = {}) {
       // Create a temporary link to download the screenshot for verification
       const link = document.createElement('a')
       link.href = screenshot
-      link.download = `test-screenshot-${Date.now()}.jpg`
+      link.download = `test-screenshot-${Date.now()}.${extensionFor(mimeTypeOf(screenshot))}`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -673,46 +1254,498 @@ export function useAnalyzeChat(config: AnalyzeChatConfig = {}) {
     }
   }
 
+  // Load every remaining page of history
+  const loadAllHistory = async () => {
+    while (hasMore.value && (await loadOlder()) > 0) {
+      // keep paging
+    }
+  }
+
+  // Serialize conversations, oldest first. Without ids the whole history is loaded and exported
+  const exportConversations = async (format: ExportFormat, conversationIds?: string[]): Promise<string> => {
+    if (!conversationIds) {
+      await loadAllHistory()
+    }
+    const selected = conversations.value
+      .filter(conv => !conv.loading && (!conversationIds || conversationIds.includes(conv.id)))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    console.log(`[AnalyzeChat] Exporting ${selected.length} conversations as ${format}`)
+    switch (format) {
+      case 'markdown':
+        return exportToMarkdown(selected)
+      case 'json':
+        return exportToJson(selected)
+      case 'html':
+        return exportToHtml(selected)
+    }
+  }
+
+  // Restore a JSON export into the active store, skipping conversations that already exist.
+  // Throws an AnalyzeChatError ('import') if the file isn't an export
+  const importConversations = async (json: string): Promise<ImportResult> => {
+    const incoming = parseConversationExport(json)
+    const store = activeStore()
+    const result: ImportResult = { imported: 0, skipped: 0, failed: 0 }
+
+    console.log(`[AnalyzeChat] Importing ${incoming.length} conversations into ${store.name}...`)
+    for (const conversation of incoming) {
+      let exists = conversations.value.some(conv => conv.id === conversation.id)
+      if (!exists) {
+        try {
+          exists = !!(await store.get(conversation.id))
+        } catch (error) {
+          console.warn(`[AnalyzeChat] Could not check ${store.name} for ${conversation.id}:`, error)
+        }
+      }
+      if (exists) {
+        result.skipped++
+        continue
+      }
+
+      // Imported conversations belong to whoever imports them
+      const restored = reactive<Conversation>({ ...conversation, userId: currentUser.value?.id }) as Conversation
+      conversations.value.push(restored)
+      try {
+        await saveConversation(restored, store)
+        result.imported++
+      } catch (error) {
+        conversations.value = conversations.value.filter(conv => conv.id !== restored.id)
+        reportError(error)
+        result.failed++
+      }
+    }
+
+    console.log(`[AnalyzeChat] Import finished: ${result.imported} imported, ${result.skipped} skipped, ${result.failed} failed`)
+    return result
+  }
+
+  // Rate an answer, or pass null to remove the rating. Saved back to the store the conversation
+  // lives in; database saves that fail are queued like any other save
+  const rateConversation = async (
+    conversationId: string,
+    rating: ConversationFeedback['rating'] | null,
+    comment?: string
+  ): Promise<ConversationFeedback | null> => {
+    const conversation = conversations.value.find(conv => conv.id === conversationId)
+    if (!conversation || conversation.loading || conversation.error) return null
+
+    const trimmed = comment?.trim()
+    conversation.feedback = rating
+      ? { rating, comment: trimmed || undefined, createdAt: new Date() }
+      : undefined
+
+    console.log(`[AnalyzeChat] Conversation ${rating ? `rated ${rating}` : 'rating removed'}`)
+    if (conversation.isFromDb && canUseDatabase()) {
+      await persistConversation(conversation)
+    } else {
+      try {
+        await saveConversation(conversation, fallbackStore)
+      } catch (error) {
+        reportError(error)
+      }
+    }
+    return conversation.feedback ?? null
+  }
+
+  // Aggregate ratings for the current user (or this device for guests), per model
+  const getFeedbackSummary = async (options: { since?: Date } = {}): Promise<FeedbackSummary> => {
+    const store = activeStore()
+    const userId = currentUser.value?.id ?? null
+    try {
+      let records: FeedbackRecord[] = []
+      if (store.listFeedback) {
+        records = await store.listFeedback({ userId, since: options.since })
+      } else {
+        // Only the ratings are kept from each page
+        await forEachPage(store, userId, page => {
+          records.push(...toFeedbackRecords(page, options.since))
+        })
+      }
+      return summarizeFeedback(records)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to load feedback from ${store.name}:`, error)
+      throw new StorageError(store.name, 'load', `Failed to load feedback from ${store.name}`, { cause: error })
+    }
+  }
+
+  // Saved templates live in the active store when it supports them, otherwise on this device
+  const templateKey = `${storageKey}-templates`
+  const templateStore = () => {
+    const store = activeStore()
+    return store.listTemplates && store.saveTemplate && store.deleteTemplate ? store : null
+  }
+
+  const readLocalTemplates = (): SavedPromptTemplate[] => {
+    const saved = localStorage.getItem(templateKey)
+    if (!saved) return []
+    return (JSON.parse(saved) as any[]).map(template => ({ ...template, createdAt: new Date(template.createdAt) }))
+  }
+
+  const writeLocalTemplates = (templates: SavedPromptTemplate[]) => {
+    try {
+      localStorage.setItem(templateKey, JSON.stringify(templates))
+    } catch (error) {
+      if (isQuotaExceeded(error)) throw new QuotaError('localStorage', { cause: error })
+      throw error
+    }
+  }
+
+  // Load the user's saved templates (this device's for guests)
+  const loadTemplates = async () => {
+    const store = templateStore()
+    try {
+      savedTemplates.value = store
+        ? await store.listTemplates!(currentUser.value?.id ?? null)
+        : readLocalTemplates()
+    } catch (error) {
+      const name = store?.name ?? 'localStorage'
+      console.error(`[AnalyzeChat] Failed to load prompt templates from ${name}:`, error)
+      reportError(new StorageError(name, 'load', `Failed to load prompt templates from ${name}`, { cause: error }))
+    }
+  }
+
+  // Save the current question (or any prompt) as a template; its command is derived from the label
+  const saveTemplate = async (
+    template: Omit<PromptTemplate, 'command'> & { command?: string }
+  ): Promise<SavedPromptTemplate | null> => {
+    const label = template.label.trim()
+    const prompt = template.prompt.trim()
+    if (!label || !prompt) return null
+
+    const saved: SavedPromptTemplate = {
+      id: generateId(),
+      command: commandFor(template.command || label, promptTemplates.value.map(existing => existing.command)),
+      label,
+      prompt,
+      description: template.description?.trim() || undefined,
+      userId: currentUser.value?.id,
+      createdAt: new Date()
+    }
+
+    const store = templateStore()
+    savedTemplates.value = [...savedTemplates.value, saved]
+    try {
+      if (store) {
+        await store.saveTemplate!(saved)
+      } else {
+        writeLocalTemplates(savedTemplates.value)
+      }
+    } catch (error) {
+      const name = store?.name ?? 'localStorage'
+      console.error(`[AnalyzeChat] Failed to save prompt template to ${name}:`, error)
+      savedTemplates.value = savedTemplates.value.filter(existing => existing.id !== saved.id)
+      reportError(error instanceof QuotaError ? error : new StorageError(name, 'save', `Failed to save prompt template to ${name}`, { cause: error }))
+      return null
+    }
+
+    console.log(`[AnalyzeChat] Prompt template /${saved.command} saved`)
+    return saved
+  }
+
+  // Delete a saved template; restored if the store fails
+  const deleteTemplate = async (templateId: string): Promise<boolean> => {
+    const index = savedTemplates.value.findIndex(template => template.id === templateId)
+    if (index === -1) return false
+
+    const removed = savedTemplates.value[index]
+    const store = templateStore()
+    savedTemplates.value = savedTemplates.value.filter(template => template.id !== templateId)
+    try {
+      if (store) {
+        await store.deleteTemplate!(templateId)
+      } else {
+        writeLocalTemplates(savedTemplates.value)
+      }
+    } catch (error) {
+      const name = store?.name ?? 'localStorage'
+      console.error(`[AnalyzeChat] Failed to delete prompt template from ${name}:`, error)
+      const restored = [...savedTemplates.value]
+      restored.splice(index, 0, removed)
+      savedTemplates.value = restored
+      reportError(new StorageError(name, 'delete', `Failed to delete prompt template from ${name}`, { cause: error }))
+      return false
+    }
+    return true
+  }
+
+  // Question text for a template, with {{variables}} filled from the page and contextProvider
+  const fillPromptTemplate = async (template: PromptTemplate): Promise<string> => {
+    let context: Record<string, string> = {}
+    if (contextProvider) {
+      try {
+        const app = await contextProvider()
+        if (app) context = toTemplateVariables(redactor.maskValue(app))
+      } catch (error) {
+        console.error('[AnalyzeChat] contextProvider failed:', error)
+      }
+    }
+    return fillTemplate(template.prompt, { ...pageVariables(), ...context })
+  }
+
+  // Sharing needs the conversation in the signed-in user's remote store, and a store with the share methods
+  const canShare = (conversationId: string) => {
+    const conversation = conversations.value.find(conv => conv.id === conversationId)
+    return !!(
+      conversation?.isFromDb && !conversation.error && !conversation.loading && canUseDatabase() &&
+      primaryStore?.createShare && primaryStore.listShares && primaryStore.revokeShare
+    )
+  }
+
+  // Create a read-only link to a conversation, optionally expiring
+  const shareConversation = async (
+    conversationId: string,
+    options: { expiresAt?: Date } = {}
+  ): Promise<ConversationShare | null> => {
+    if (!canShare(conversationId)) {
+      reportError(new AnalyzeChatError('share', 'Only answers saved to your account can be shared', { conversationId }))
+      return null
+    }
+
+    const share: ConversationShare = {
+      token: generateShareToken(),
+      conversationId,
+      userId: currentUser.value?.id,
+      createdAt: new Date(),
+      expiresAt: options.expiresAt
+    }
+    const store = primaryStore!
+    try {
+      await store.createShare!(share)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to create share link in ${store.name}:`, error)
+      reportError(new StorageError(store.name, 'save', `Failed to create share link in ${store.name}`, { conversationId, cause: error }))
+      return null
+    }
+
+    console.log(`[AnalyzeChat] Conversation ${conversationId} shared${share.expiresAt ? ` until ${share.expiresAt.toISOString()}` : ''}`)
+    return share
+  }
+
+  // Share links of a conversation, newest first. Throws a StorageError on failure
+  const listShares = async (conversationId: string): Promise<ConversationShare[]> => {
+    if (!canShare(conversationId)) return []
+    const store = primaryStore!
+    try {
+      return await store.listShares!(conversationId)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to load share links from ${store.name}:`, error)
+      throw new StorageError(store.name, 'load', `Failed to load share links from ${store.name}`, { conversationId, cause: error })
+    }
+  }
+
+  // Stop a share link from working
+  const revokeShare = async (token: string): Promise<boolean> => {
+    const store = primaryStore
+    if (!store?.revokeShare || !canUseDatabase()) return false
+    try {
+      await store.revokeShare(token)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to revoke share link in ${store.name}:`, error)
+      reportError(new StorageError(store.name, 'save', `Failed to revoke share link in ${store.name}`, { cause: error }))
+      return false
+    }
+    console.log('[AnalyzeChat] Share link revoked')
+    return true
+  }
+
+  // Link for a share token: config.shareUrl, or this page with the token as a query parameter
+  const shareLink = (token: string) => {
+    if (shareUrl) return shareUrl(token)
+    const url = new URL(window.location.href)
+    url.search = ''
+    url.hash = ''
+    url.searchParams.set(SHARE_TOKEN_PARAM, token)
+    return url.toString()
+  }
+
+  // Switch to another signed-in user (or null to sign out). Call loadConversations afterwards to show their history;
+  // their saved templates are loaded here
+  const setUser = (user: { id: string } | null) => {
+    if (user?.id === currentUser.value?.id) return
+    console.log(`[AnalyzeChat] User ${user ? 'signed in' : 'signed out'}`)
+    currentUser.value = user
+    loadTemplates()
+  }
+
+  // Device-local conversations that migrateLocalToDatabase would move: guest history and the current
+  // user's own unsynced copies. Errored ones and other users' copies on a shared device stay local
+  const listMigratable = async (): Promise<Conversation[]> => {
+    const userId = currentUser.value?.id
+    const local = await fallbackStore.list({ userId: null, limit: Number.MAX_SAFE_INTEGER })
+    return local.filter(conv => !conv.error && conv.response && (!conv.userId || conv.userId === userId))
+  }
+
+  // Number of device-local conversations waiting to be moved to the database
+  const countLocalConversations = async (): Promise<number> => {
+    if (!canUseDatabase()) return 0
+    try {
+      return (await listMigratable()).length
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to read ${fallbackStore.name}:`, error)
+      return 0
+    }
+  }
+
+  // Move guest history into the database once a user signs in. Saves are upserts by id,
+  // so re-running after a partial failure is safe; local copies are only deleted once
+  // the database confirms them.
+  const migrateLocalToDatabase = async (options: MigrationOptions = {}): Promise<MigrationResult> => {
+    if (!canUseDatabase()) {
+      throw new StorageError(primaryStore?.name ?? 'database', 'save', 'Sign in to move conversations to your account')
+    }
+    if (isMigrating.value) {
+      throw new StorageError(primaryStore!.name, 'save', 'A migration is already running')
+    }
+
+    const store = primaryStore!
+    isMigrating.value = true
+
+    try {
+      let pending: Conversation[]
+      try {
+        pending = await listMigratable()
+      } catch (error) {
+        console.error(`[AnalyzeChat] Failed to read ${fallbackStore.name}:`, error)
+        throw new StorageError(fallbackStore.name, 'load', `Failed to read conversations from ${fallbackStore.name}`, { cause: error })
+      }
+
+      const result: MigrationResult = { total: pending.length, migrated: 0, failed: [] }
+      console.log(`[AnalyzeChat] Migrating ${pending.length} conversations from ${fallbackStore.name} to ${store.name}...`)
+
+      for (const [index, conversation] of pending.entries()) {
+        options.onProgress?.({ completed: index, total: pending.length, conversationId: conversation.id })
+        try {
+          await saveConversation({ ...conversation, userId: conversation.userId ?? currentUser.value?.id }, store)
+
+          // Only forget the local copy once the database has it, at its original place in the history
+          const confirmed = await store.get(conversation.id)
+          if (!confirmed) {
+            throw new StorageError(store.name, 'save', `${store.name} did not confirm conversation ${conversation.id}`)
+          }
+          if (confirmed.timestamp.getTime() !== conversation.timestamp.getTime()) {
+            throw new StorageError(store.name, 'save', `${store.name} changed the time of conversation ${conversation.id}`)
+          }
+          await fallbackStore.delete(conversation.id)
+          result.migrated++
+        } catch (error) {
+          console.error(`[AnalyzeChat] Failed to migrate conversation ${conversation.id}:`, error)
+          result.failed.push({
+            conversationId: conversation.id,
+            error: toAnalyzeChatError(error, { conversationId: conversation.id })
+          })
+        }
+      }
+      options.onProgress?.({ completed: pending.length, total: pending.length })
+
+      console.log(`[AnalyzeChat] Migration finished: ${result.migrated} migrated, ${result.failed.length} failed`)
+      if (result.failed.length > 0) {
+        reportError(new StorageError(store.name, 'save', `${result.failed.length} of ${result.total} conversations could not be moved to your account`))
+      }
+      return result
+    } finally {
+      isMigrating.value = false
+    }
+  }
+
+  // Remove every conversation for the current user from a store
+  const clearStore = async (store: ConversationStore) => {
+    const userId = currentUser.value?.id ?? null
+    if (store.clear) {
+      await store.clear(userId)
+      return
+    }
+    await forEachPage(store, userId, async page => {
+      await Promise.all(page.map(conv => store.delete(conv.id)))
+    })
+  }
+
   // Clear conversation history
   const clearConversations = async () => {
-    if (canUseDatabase() && supabaseClient && user?.id) {
+    if (canUseDatabase()) {
       try {
-        console.log('[AnalyzeChat] Clearing conversations from database...')
-        const { error } = await supabaseClient
-          .schema('hf')
-          .from('ai_conversations')
-          .delete()
-          .eq('user_id', user.id)
-        
-        if (error) {
-          console.error('[AnalyzeChat] Error clearing database:', error)
-          throw error
-        }
-        console.log('[AnalyzeChat] Database conversations cleared')
+        console.log(`[AnalyzeChat] Clearing conversations from ${primaryStore!.name}...`)
+        await clearStore(primaryStore!)
+        console.log(`[AnalyzeChat] ${primaryStore!.name} conversations cleared`)
       } catch (error) {
-        console.error('[AnalyzeChat] Failed to clear database:', error)
+        console.error(`[AnalyzeChat] Failed to clear ${primaryStore!.name}:`, error)
+        reportError(new StorageError(primaryStore!.name, 'clear', `Failed to clear conversations from ${primaryStore!.name}`, { cause: error }))
       }
     }
     
-    // Always clear localStorage and local state
-    localStorage.removeItem(storageKey)
+    // Always clear the fallback store and local state
+    try {
+      await clearStore(fallbackStore)
+    } catch (error) {
+      console.error(`[AnalyzeChat] Failed to clear ${fallbackStore.name}:`, error)
+      reportError(new StorageError(fallbackStore.name, 'clear', `Failed to clear conversations from ${fallbackStore.name}`, { cause: error }))
+    }
     conversations.value = []
+    outboxEntries.value = []
+    outbox.save([])
+    hasMore.value = false
+    startNewThread()
     console.log('[AnalyzeChat] Conversations cleared')
   }
 
-  // Initialize conversations on creation only if autoLoad is enabled
+  // Initialize conversations on creation only if autoLoad is enabled, then flush anything queued last session
   if (config.autoLoad !== false) {
-    loadConversations()
+    loadConversations().then(() => syncOutbox({ force: true }))
+    loadTemplates()
   }
 
   return {
     conversations: computed(() => conversations.value),
     isProcessing: computed(() => isProcessing.value),
     isLoading: computed(() => isLoading.value),
+    isLoadingOlder: computed(() => isLoadingOlder.value),
+    isMigrating: computed(() => isMigrating.value),
+    isSyncing: computed(() => isSyncing.value),
+    models: modelOptions,
+    selectedModel: computed(() => selectedModel.value),
+    pendingSyncCount: computed(() => outboxEntries.value.length),
+    user: computed(() => currentUser.value),
+    hasMore: computed(() => hasMore.value),
+    threads,
+    threadConversations,
+    activeThreadId: computed(() => activeThreadId.value),
+    startNewThread,
+    switchThread,
     askQuestion,
+    cancelQuestion,
+    retryConversation,
+    regenerateConversation,
+    editConversation,
+    deleteConversation,
     clearConversations,
+    loadOlder,
+    searchConversations,
+    jumpToConversation,
+    exportConversations,
+    importConversations,
+    rateConversation,
+    getFeedbackSummary,
+    syncOutbox,
+    setModel,
+    setUser,
+    countLocalConversations,
+    migrateLocalToDatabase,
+    onError,
     testScreenshot,
     captureScreenshot,
+    createAttachment,
+    createScreenshotAttachment,
+    maxAttachments,
+    promptTemplates,
+    loadTemplates,
+    saveTemplate,
+    deleteTemplate,
+    fillPromptTemplate,
+    canShare,
+    shareConversation,
+    listShares,
+    revokeShare,
+    shareLink,
     loadConversations, // Export for manual loading
     // Export refs for advanced usage
     conversationsRef: conversations as Ref<Conversation[]>,
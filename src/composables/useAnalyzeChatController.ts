@@ -0,0 +1,130 @@
+import { computed, effectScope, hasInjectionContext, inject, ref, shallowRef, type ComputedRef, type InjectionKey } from 'vue'
+import { useAnalyzeChat } from './useAnalyzeChat'
+import type { AnalyzeChatConfig, AnalyzeChatOpenOptions } from '../types'
+
+/**
+ * App-wide chat installed by the plugin. Every <AnalyzeChat> without its own `config`
+ * shows this state, so a question asked from anywhere lands in the same history
+ */
+export interface AnalyzeChatController {
+  /** Conversation state and actions shared across the app, created on first use */
+  readonly chat: ReturnType<typeof useAnalyzeChat>
+
+  /** Config the shared chat was created with */
+  config: AnalyzeChatConfig
+
+  /** Whether the shared chat is shown */
+  isOpen: ComputedRef<boolean>
+
+  /** Signed-in user of the shared chat, from config.user until setUser is called */
+  user: ComputedRef<{ id: string } | null>
+
+  /** Open request not yet picked up by a mounted chat */
+  pendingRequest: ComputedRef<AnalyzeChatOpenOptions | null>
+
+  /** Show the chat, optionally with a question and the element it's about */
+  open: (options?: AnalyzeChatOpenOptions) => void
+
+  /** Hide the chat */
+  close: () => void
+
+  /** Show or hide the chat */
+  toggle: () => void
+
+  /** Switch the shared chat to another signed-in user (or null on sign-out) and reload its history */
+  setUser: (user: { id: string } | null) => void
+
+  /** Take the pending open request, leaving none */
+  takeRequest: () => AnalyzeChatOpenOptions | null
+
+  /** Stop the shared chat's listeners and timers */
+  dispose: () => void
+}
+
+/** Injection key the plugin provides the controller under */
+export const ANALYZE_CHAT_CONTROLLER: InjectionKey<AnalyzeChatController> = Symbol('AnalyzeChatController')
+
+// Last installed controller, for callers outside component setup (grid and chart menu callbacks)
+let installedController: AnalyzeChatController | null = null
+
+/**
+ * Create the shared chat. Normally done by `app.use(AnalyzeChatPlugin, { config })`
+ * @param config Configuration for the shared chat
+ */
+export function createAnalyzeChatController(config: AnalyzeChatConfig = {}): AnalyzeChatController {
+  // Detached so the state lives as long as the app, not as long as the first component using it
+  const scope = effectScope(true)
+  let chat: ReturnType<typeof useAnalyzeChat> | null = null
+  const isOpen = ref(false)
+  const pendingRequest = shallowRef<AnalyzeChatOpenOptions | null>(null)
+  const user = shallowRef(config.user ?? null)
+
+  const open = (options: AnalyzeChatOpenOptions = {}) => {
+    // A request without anything to do just shows the chat
+    if (options.question || options.contextElement) {
+      pendingRequest.value = { ...options }
+    }
+    isOpen.value = true
+  }
+
+  const close = () => {
+    isOpen.value = false
+    pendingRequest.value = null
+  }
+
+  const toggle = () => {
+    if (isOpen.value) close()
+    else open()
+  }
+
+  // The config is fixed once the plugin is installed, so sign-in and sign-out come through here
+  const setUser = (next: { id: string } | null) => {
+    if (next?.id === user.value?.id) return
+    user.value = next
+    // A chat created later starts with this user
+    if (!chat) return
+    chat.setUser(next)
+    chat.loadConversations()
+  }
+
+  const takeRequest = () => {
+    const request = pendingRequest.value
+    pendingRequest.value = null
+    return request
+  }
+
+  const dispose = () => {
+    scope.stop()
+    if (installedController === controller) installedController = null
+  }
+
+  const controller: AnalyzeChatController = {
+    // Installing the plugin alone shouldn't load history
+    get chat() {
+      return chat ??= scope.run(() => useAnalyzeChat({ ...config, user: user.value }))!
+    },
+    config,
+    isOpen: computed(() => isOpen.value),
+    user: computed(() => user.value),
+    pendingRequest: computed(() => pendingRequest.value),
+    open,
+    close,
+    toggle,
+    setUser,
+    takeRequest,
+    dispose
+  }
+  installedController = controller
+  return controller
+}
+
+/**
+ * The controller provided by the plugin, from a component or from plain code once the plugin is installed
+ */
+export function useAnalyzeChatController(): AnalyzeChatController {
+  const controller = (hasInjectionContext() ? inject(ANALYZE_CHAT_CONTROLLER, null) : null) ?? installedController
+  if (!controller) {
+    throw new Error('[AnalyzeChat] useAnalyzeChatController() needs the plugin: app.use(AnalyzeChatPlugin, { config })')
+  }
+  return controller
+}
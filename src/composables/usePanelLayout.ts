@@ -0,0 +1,176 @@
+import { ref, computed, getCurrentScope, onScopeDispose } from 'vue'
+import type { AnalyzeChatMode } from '../types'
+
+// Smallest panel the chat stays usable in
+const MIN_WIDTH = 360
+const MIN_HEIGHT = 400
+
+// Page width always left uncovered by the docked panel
+const MIN_PAGE_WIDTH = 200
+
+// Pixels of a floating window kept on screen so it can always be dragged back
+const MIN_VISIBLE = 80
+
+interface PanelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Size and position of the non-modal panels, remembered per device */
+interface PanelLayout {
+  dockedWidth: number
+  floating: PanelRect
+}
+
+const defaultLayout = (): PanelLayout => {
+  const width = Math.min(480, window.innerWidth - 32)
+  const height = Math.min(640, window.innerHeight - 32)
+  return {
+    dockedWidth: 440,
+    floating: {
+      x: Math.max(16, window.innerWidth - width - 24),
+      y: Math.max(16, window.innerHeight - height - 24),
+      width,
+      height
+    }
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), Math.max(min, max))
+
+// Keep a layout saved on a bigger screen usable on this one
+const fitToViewport = (layout: PanelLayout): PanelLayout => {
+  const width = clamp(layout.floating.width, MIN_WIDTH, window.innerWidth)
+  const height = clamp(layout.floating.height, MIN_HEIGHT, window.innerHeight)
+  return {
+    dockedWidth: clamp(layout.dockedWidth, MIN_WIDTH, window.innerWidth - MIN_PAGE_WIDTH),
+    floating: {
+      x: clamp(layout.floating.x, MIN_VISIBLE - width, window.innerWidth - MIN_VISIBLE),
+      y: clamp(layout.floating.y, 0, window.innerHeight - MIN_VISIBLE),
+      width,
+      height
+    }
+  }
+}
+
+const loadLayout = (key: string): PanelLayout => {
+  const fallback = defaultLayout()
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || 'null') as Partial<PanelLayout> | null
+    return fitToViewport({
+      dockedWidth: Number(saved?.dockedWidth) || fallback.dockedWidth,
+      floating: { ...fallback.floating, ...saved?.floating }
+    })
+  } catch {
+    return fitToViewport(fallback)
+  }
+}
+
+/**
+ * Size and position of the docked panel and floating window, with pointer handlers to
+ * resize and move them. Saved to `${storageKey}-layout` when a drag ends
+ * @param storageKey Prefix shared with the conversation storage
+ */
+export function usePanelLayout(storageKey: string) {
+  const layoutKey = `${storageKey}-layout`
+  const layout = ref<PanelLayout>(loadLayout(layoutKey))
+  const isDragging = ref(false)
+  let stopDrag: (() => void) | null = null
+
+  const saveLayout = () => {
+    try {
+      localStorage.setItem(layoutKey, JSON.stringify(layout.value))
+    } catch (error) {
+      console.warn('[AnalyzeChat] Could not save panel layout:', error)
+    }
+  }
+
+  // Follow the pointer until it's released, then save
+  const trackPointer = (event: PointerEvent, onMove: (dx: number, dy: number) => void) => {
+    if (event.button !== 0) return
+    event.preventDefault()
+    stopDrag?.()
+
+    const startX = event.clientX
+    const startY = event.clientY
+    const handleMove = (moveEvent: PointerEvent) => {
+      onMove(moveEvent.clientX - startX, moveEvent.clientY - startY)
+      layout.value = fitToViewport(layout.value)
+    }
+    const handleUp = () => {
+      stopDrag?.()
+      saveLayout()
+    }
+
+    stopDrag = () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      isDragging.value = false
+      stopDrag = null
+    }
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    isDragging.value = true
+  }
+
+  // Drag the docked panel's left edge
+  const startDockResize = (event: PointerEvent) => {
+    const startWidth = layout.value.dockedWidth
+    trackPointer(event, (dx) => {
+      layout.value.dockedWidth = startWidth - dx
+    })
+  }
+
+  // Drag the floating window by its header; controls in the header keep working
+  const startMove = (event: PointerEvent) => {
+    if ((event.target as Element).closest('button, input, select, textarea, a')) return
+    const { x, y } = layout.value.floating
+    trackPointer(event, (dx, dy) => {
+      layout.value.floating.x = x + dx
+      layout.value.floating.y = y + dy
+    })
+  }
+
+  // Drag the floating window's bottom-right corner
+  const startFloatResize = (event: PointerEvent) => {
+    const { width, height } = layout.value.floating
+    trackPointer(event, (dx, dy) => {
+      layout.value.floating.width = width + dx
+      layout.value.floating.height = height + dy
+    })
+  }
+
+  // Inline style for the panel in the given mode (none for the modal)
+  const panelStyle = (mode: AnalyzeChatMode): Record<string, string> => {
+    if (mode === 'docked') {
+      return { width: `${layout.value.dockedWidth}px` }
+    }
+    if (mode === 'floating') {
+      const { x, y, width, height } = layout.value.floating
+      return { left: `${x}px`, top: `${y}px`, width: `${width}px`, height: `${height}px` }
+    }
+    return {}
+  }
+
+  const handleWindowResize = () => {
+    layout.value = fitToViewport(layout.value)
+  }
+  window.addEventListener('resize', handleWindowResize)
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      stopDrag?.()
+      window.removeEventListener('resize', handleWindowResize)
+    })
+  }
+
+  return {
+    isDragging: computed(() => isDragging.value),
+    panelStyle,
+    startDockResize,
+    startMove,
+    startFloatResize
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Machine-readable error codes surfaced through onError and the `error` event
+ */
+export type AnalyzeChatErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'http'
+  | 'api'
+  | 'screenshot'
+  | 'storage'
+  | 'quota'
+  | 'import'
+  | 'attachment'
+  | 'share'
+  | 'unknown'
+
+/**
+ * Options shared by every AnalyzeChat error
+ */
+export interface AnalyzeChatErrorOptions {
+  /** Conversation the error belongs to, when it happened while answering a question */
+  conversationId?: string
+
+  /** Whether trying again may succeed. Default depends on the error class */
+  retryable?: boolean
+
+  /** Underlying error */
+  cause?: unknown
+}
+
+/**
+ * Base class for errors reported by useAnalyzeChat and AnalyzeChat
+ */
+export class AnalyzeChatError extends Error {
+  /** Machine-readable error code */
+  readonly code: AnalyzeChatErrorCode
+
+  /** Whether trying again may succeed */
+  readonly retryable: boolean
+
+  /** Conversation the error belongs to, if any */
+  readonly conversationId?: string
+
+  /** Underlying error */
+  readonly cause?: unknown
+
+  constructor(code: AnalyzeChatErrorCode, message: string, options: AnalyzeChatErrorOptions = {}) {
+    super(message)
+    this.name = 'AnalyzeChatError'
+    this.code = code
+    this.retryable = options.retryable ?? false
+    this.conversationId = options.conversationId
+    this.cause = options.cause
+  }
+}
+
+/**
+ * The API could not be reached, did not answer in time, or the request was cancelled
+ */
+export class NetworkError extends AnalyzeChatError {
+  constructor(
+    message: string,
+    options: AnalyzeChatErrorOptions & { code?: 'network' | 'timeout' | 'cancelled' } = {}
+  ) {
+    super(options.code ?? 'network', message, { retryable: true, ...options })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * The API answered with a non-2xx status, or reported an error inside a streamed response
+ */
+export class HttpError extends AnalyzeChatError {
+  /** HTTP status code (0 for errors reported mid-stream) */
+  readonly status: number
+
+  /** Response body, if one was read */
+  readonly body: string
+
+  constructor(status: number, body: string, options: AnalyzeChatErrorOptions = {}) {
+    super(
+      status > 0 ? 'http' : 'api',
+      status > 0 ? `AI API Error: ${status}${body ? ` - ${body}` : ''}` : `AI API Error: ${body}`,
+      { retryable: status === 0 || status === 408 || status === 429 || status >= 500, ...options }
+    )
+    this.name = 'HttpError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * Every screenshot method failed; a text summary was sent instead
+ */
+export class ScreenshotError extends AnalyzeChatError {
+  constructor(message: string, options: AnalyzeChatErrorOptions = {}) {
+    super('screenshot', message, { retryable: true, ...options })
+    this.name = 'ScreenshotError'
+  }
+}
+
+/**
+ * A conversation store failed to load, save or clear conversations
+ */
+export class StorageError extends AnalyzeChatError {
+  /** Name of the store that failed */
+  readonly store: string
+
+  /** What was being done when it failed */
+  readonly operation: 'load' | 'save' | 'delete' | 'clear' | 'upload'
+
+  constructor(
+    store: string,
+    operation: StorageError['operation'],
+    message: string,
+    options: AnalyzeChatErrorOptions & { code?: 'storage' | 'quota' } = {}
+  ) {
+    super(options.code ?? 'storage', message, { retryable: true, ...options })
+    this.name = 'StorageError'
+    this.store = store
+    this.operation = operation
+  }
+}
+
+/**
+ * Device storage is full
+ */
+export class QuotaError extends StorageError {
+  constructor(store: string, options: AnalyzeChatErrorOptions = {}) {
+    super(
+      store,
+      'save',
+      `Not enough space in ${store} to save the conversation. Clear old conversations to free up space.`,
+      { retryable: false, ...options, code: 'quota' }
+    )
+    this.name = 'QuotaError'
+  }
+}
+
+/**
+ * Whether an error is the browser reporting that storage is full
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  )
+}
+
+/**
+ * Wrap anything thrown into an AnalyzeChatError, keeping typed errors as they are
+ */
+export function toAnalyzeChatError(error: unknown, options: AnalyzeChatErrorOptions = {}): AnalyzeChatError {
+  if (error instanceof AnalyzeChatError) return error
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error'
+  return new AnalyzeChatError('unknown', message, { cause: error, ...options })
+}
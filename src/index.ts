@@ -1,17 +1,156 @@
 import { App } from 'vue'
 import AnalyzeChat from './AnalyzeChat.vue'
-import { useAnalyzeChat } from './composables/useAnalyzeChat'
-import type { Conversation, AnalyzeChatConfig, AnalyzeChatProps, AnalyzeChatEmits } from './types'
+import SharedConversationViewer from './SharedConversationViewer.vue'
+import { useAnalyzeChat, SHARE_TOKEN_PARAM, type AnalyzeChatErrorHandler } from './composables/useAnalyzeChat'
+import {
+  createAnalyzeChatController,
+  useAnalyzeChatController,
+  ANALYZE_CHAT_CONTROLLER,
+  type AnalyzeChatController
+} from './composables/useAnalyzeChatController'
+import {
+  AnalyzeChatError,
+  NetworkError,
+  HttpError,
+  ScreenshotError,
+  StorageError,
+  QuotaError,
+  type AnalyzeChatErrorCode,
+  type AnalyzeChatErrorOptions
+} from './errors'
+import {
+  createSupabaseStore,
+  createLocalStorageStore,
+  createIndexedDbStore,
+  createMemoryStore,
+  type SupabaseStoreOptions,
+  type LocalStorageStoreOptions,
+  type IndexedDbStoreOptions
+} from './stores'
+import {
+  createHtml2CanvasProvider,
+  createDomCloneProvider,
+  createTextSummaryProvider,
+  type Html2CanvasProviderOptions
+} from './capture'
+import type { Redactor } from './utils/redaction'
+import type {
+  Conversation,
+  ConversationAttachment,
+  ConversationThread,
+  ConversationHistoryEntry,
+  ConversationStore,
+  ConversationQuery,
+  AttachmentTarget,
+  CaptureRect,
+  CaptureTarget,
+  CaptureContext,
+  CaptureProvider,
+  CaptureInfo,
+  ImageFormat,
+  PageData,
+  PageDataTable,
+  PageDataElement,
+  ModelOption,
+  GenerationParameters,
+  ConversationFeedback,
+  ConversationShare,
+  FeedbackRecord,
+  FeedbackQuery,
+  PromptTemplate,
+  SavedPromptTemplate,
+  FeedbackCounts,
+  FeedbackSummary,
+  ExportFormat,
+  ConversationExport,
+  ImportResult,
+  MigrationOptions,
+  MigrationProgress,
+  MigrationResult,
+  AnalyzeChatConfig,
+  AnalyzeChatProps,
+  SharedConversationViewerProps,
+  AnalyzeChatMode,
+  AnalyzeChatOpenOptions,
+  AnalyzeChatPluginOptions,
+  AnalyzeChatEmits
+} from './types'
 
 // Named exports
 export { AnalyzeChat, useAnalyzeChat }
 
+// Read-only view of a shared conversation
+export { SharedConversationViewer, SHARE_TOKEN_PARAM }
+
+// Shared chat controller
+export { createAnalyzeChatController, useAnalyzeChatController, ANALYZE_CHAT_CONTROLLER }
+
+// Error classes
+export { AnalyzeChatError, NetworkError, HttpError, ScreenshotError, StorageError, QuotaError }
+
+// Conversation stores
+export { createSupabaseStore, createLocalStorageStore, createIndexedDbStore, createMemoryStore }
+
+// Capture providers
+export { createHtml2CanvasProvider, createDomCloneProvider, createTextSummaryProvider }
+
 // Export types
-export type { Conversation, AnalyzeChatConfig, AnalyzeChatProps, AnalyzeChatEmits }
+export type {
+  Conversation,
+  ConversationAttachment,
+  ConversationThread,
+  ConversationHistoryEntry,
+  ConversationStore,
+  ConversationQuery,
+  AttachmentTarget,
+  SupabaseStoreOptions,
+  LocalStorageStoreOptions,
+  IndexedDbStoreOptions,
+  Html2CanvasProviderOptions,
+  Redactor,
+  CaptureRect,
+  CaptureTarget,
+  CaptureContext,
+  CaptureProvider,
+  CaptureInfo,
+  ImageFormat,
+  PageData,
+  PageDataTable,
+  PageDataElement,
+  ModelOption,
+  GenerationParameters,
+  ConversationFeedback,
+  ConversationShare,
+  FeedbackRecord,
+  FeedbackQuery,
+  PromptTemplate,
+  SavedPromptTemplate,
+  FeedbackCounts,
+  FeedbackSummary,
+  ExportFormat,
+  ConversationExport,
+  ImportResult,
+  MigrationOptions,
+  MigrationProgress,
+  MigrationResult,
+  AnalyzeChatConfig,
+  AnalyzeChatProps,
+  SharedConversationViewerProps,
+  AnalyzeChatMode,
+  AnalyzeChatOpenOptions,
+  AnalyzeChatPluginOptions,
+  AnalyzeChatEmits,
+  AnalyzeChatErrorCode,
+  AnalyzeChatErrorOptions,
+  AnalyzeChatErrorHandler,
+  AnalyzeChatController
+}
 
-// Default export as Vue plugin
+// Default export as Vue plugin. Also provides the shared chat behind useAnalyzeChatController()
 export default {
-  install(app: App) {
+  install(app: App, options: AnalyzeChatPluginOptions = {}) {
     app.component('AnalyzeChat', AnalyzeChat)
+    app.component('SharedConversationViewer', SharedConversationViewer)
+    app.provide(ANALYZE_CHAT_CONTROLLER, createAnalyzeChatController(options.config))
   }
 }
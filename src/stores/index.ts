@@ -0,0 +1,4 @@
+export { createSupabaseStore, type SupabaseStoreOptions } from './supabaseStore'
+export { createLocalStorageStore, type LocalStorageStoreOptions } from './localStorageStore'
+export { createIndexedDbStore, type IndexedDbStoreOptions } from './indexedDbStore'
+export { createMemoryStore } from './memoryStore'
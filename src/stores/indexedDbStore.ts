@@ -0,0 +1,116 @@
+import type { Conversation, ConversationStore } from '../types'
+import { toStoredConversation, fromStoredConversation, applyQuery } from './serialization'
+import { QuotaError, isQuotaExceeded } from '../errors'
+
+/**
+ * Options for the IndexedDB conversation store
+ */
+export interface IndexedDbStoreOptions {
+  /** Database name. Default: 'y2kfund-analyze-chat' */
+  databaseName?: string
+
+  /** Object store holding conversations. Default: 'conversations' */
+  storeName?: string
+}
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Resolve once a transaction commits. Quota failures and aborts are only reported on the
+// transaction, after the request itself has succeeded
+const committed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+
+/**
+ * Device-local conversation store backed by IndexedDB.
+ * Holds far more history than localStorage before hitting quota.
+ */
+export function createIndexedDbStore(options: IndexedDbStoreOptions = {}): ConversationStore {
+  const {
+    databaseName = 'y2kfund-analyze-chat',
+    storeName = 'conversations'
+  } = options
+
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return dbPromise
+  }
+
+  const objectStore = async (mode: IDBTransactionMode) => {
+    const db = await openDb()
+    return db.transaction(storeName, mode).objectStore(storeName)
+  }
+
+  // Run one write and wait for it to be committed
+  const write = async (run: (store: IDBObjectStore) => IDBRequest) => {
+    const store = await objectStore('readwrite')
+    const done = committed(store.transaction)
+    run(store)
+    await done
+  }
+
+  const readAll = async (): Promise<Conversation[]> => {
+    const records = await promisify((await objectStore('readonly')).getAll())
+    return records.map(fromStoredConversation)
+  }
+
+  return {
+    name: 'indexedDB',
+    remote: false,
+
+    async list(query) {
+      return applyQuery(await readAll(), query)
+    },
+
+    async get(id) {
+      const record = await promisify((await objectStore('readonly')).get(id))
+      return record ? fromStoredConversation(record) : null
+    },
+
+    async save(conversation) {
+      try {
+        await write(store => store.put(toStoredConversation(conversation)))
+      } catch (error) {
+        if (isQuotaExceeded(error)) throw new QuotaError('indexedDB', { cause: error })
+        throw error
+      }
+    },
+
+    async delete(id) {
+      await write(store => store.delete(id))
+    },
+
+    async clear() {
+      await write(store => store.clear())
+    },
+
+    async uploadAttachment(dataUrl) {
+      return dataUrl
+    }
+  }
+}
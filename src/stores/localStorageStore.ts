@@ -0,0 +1,73 @@
+import type { Conversation, ConversationStore } from '../types'
+import { toStoredConversation, fromStoredConversation, applyQuery } from './serialization'
+import { QuotaError, isQuotaExceeded } from '../errors'
+
+const DEFAULT_STORAGE_KEY = 'y2kfund-analyze-chat-conversations'
+
+/**
+ * Options for the localStorage conversation store
+ */
+export interface LocalStorageStoreOptions {
+  /** LocalStorage key holding the conversation list. Default: 'y2kfund-analyze-chat-conversations' */
+  storageKey?: string
+}
+
+/**
+ * Device-local conversation store backed by localStorage.
+ * Screenshots stay inline as base64 data URLs.
+ */
+export function createLocalStorageStore(options: LocalStorageStoreOptions = {}): ConversationStore {
+  const { storageKey = DEFAULT_STORAGE_KEY } = options
+
+  const read = (): Conversation[] => {
+    const saved = localStorage.getItem(storageKey)
+    if (!saved) return []
+    return (JSON.parse(saved) as any[]).map(fromStoredConversation)
+  }
+
+  const write = (conversations: Conversation[]) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(conversations.map(toStoredConversation)))
+    } catch (error) {
+      // Base64 screenshots fill the ~5MB localStorage budget quickly
+      if (isQuotaExceeded(error)) throw new QuotaError('localStorage', { cause: error })
+      throw error
+    }
+  }
+
+  return {
+    name: 'localStorage',
+    remote: false,
+
+    async list(query) {
+      return applyQuery(read(), query)
+    },
+
+    async get(id) {
+      return read().find(conv => conv.id === id) || null
+    },
+
+    async save(conversation) {
+      const conversations = read()
+      const index = conversations.findIndex(conv => conv.id === conversation.id)
+      if (index === -1) {
+        conversations.push(conversation)
+      } else {
+        conversations[index] = conversation
+      }
+      write(conversations)
+    },
+
+    async delete(id) {
+      write(read().filter(conv => conv.id !== id))
+    },
+
+    async clear() {
+      localStorage.removeItem(storageKey)
+    },
+
+    async uploadAttachment(dataUrl) {
+      return dataUrl
+    }
+  }
+}
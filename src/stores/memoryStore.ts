@@ -0,0 +1,44 @@
+import type { Conversation, ConversationStore } from '../types'
+import { toStoredConversation, fromStoredConversation, applyQuery } from './serialization'
+
+/**
+ * In-memory conversation store. Nothing survives a reload;
+ * useful for tests, demos and privacy-sensitive sessions.
+ */
+export function createMemoryStore(initial: Conversation[] = []): ConversationStore {
+  const records = new Map<string, Record<string, any>>(
+    initial.map(conv => [conv.id, toStoredConversation(conv)])
+  )
+
+  const readAll = () => [...records.values()].map(fromStoredConversation)
+
+  return {
+    name: 'memory',
+    remote: false,
+
+    async list(query) {
+      return applyQuery(readAll(), query)
+    },
+
+    async get(id) {
+      const record = records.get(id)
+      return record ? fromStoredConversation(record) : null
+    },
+
+    async save(conversation) {
+      records.set(conversation.id, toStoredConversation(conversation))
+    },
+
+    async delete(id) {
+      records.delete(id)
+    },
+
+    async clear() {
+      records.clear()
+    },
+
+    async uploadAttachment(dataUrl) {
+      return dataUrl
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { Conversation, ConversationQuery, ConversationVersion } from '../types'
+import { SCREENSHOT_ATTACHMENT_ID, normalizeAttachments } from '../utils/attachments'
+
+/**
+ * Restore the dates in an earlier version read from JSON
+ */
+export function reviveVersion(version: any): ConversationVersion {
+  return {
+    ...version,
+    replacedAt: new Date(version.replacedAt),
+    feedback: version.feedback ? { ...version.feedback, createdAt: new Date(version.feedback.createdAt) } : undefined
+  }
+}
+
+/**
+ * Convert a conversation into a plain, JSON-safe record for device-local stores.
+ * Strips reactivity and transient UI state. The screenshot is only stored once,
+ * in attachments, when it is there.
+ */
+export function toStoredConversation(conversation: Conversation): Record<string, any> {
+  const { loading: _loading, streaming: _streaming, isFromDb: _isFromDb, ...rest } = conversation
+  const screenshotInAttachments = !!rest.screenshot && !!rest.attachments?.some(attachment =>
+    attachment.id === SCREENSHOT_ATTACHMENT_ID && attachment.url === rest.screenshot
+  )
+  return JSON.parse(JSON.stringify({
+    ...rest,
+    screenshot: screenshotInAttachments ? null : rest.screenshot,
+    timestamp: conversation.timestamp instanceof Date
+      ? conversation.timestamp.toISOString()
+      : conversation.timestamp
+  }))
+}
+
+/**
+ * Restore a conversation read from a device-local store
+ */
+export function fromStoredConversation(record: any): Conversation {
+  const screenshot = record.screenshot
+    ?? record.attachments?.find((attachment: any) => attachment.id === SCREENSHOT_ATTACHMENT_ID)?.url
+    ?? null
+  return {
+    ...record,
+    screenshot,
+    attachments: normalizeAttachments(record.attachments, screenshot),
+    threadId: record.threadId || record.id,
+    timestamp: new Date(record.timestamp),
+    feedback: record.feedback ? { ...record.feedback, createdAt: new Date(record.feedback.createdAt) } : undefined,
+    alternates: Array.isArray(record.alternates) ? record.alternates.map(reviveVersion) : undefined,
+    loading: false,
+    isFromDb: false
+  }
+}
+
+/**
+ * Newest-first ordering used by every store's list()
+ */
+export function byNewestFirst(a: Conversation, b: Conversation): number {
+  return b.timestamp.getTime() - a.timestamp.getTime()
+}
+
+/**
+ * Apply cursor, search and limit to conversations held on the device, newest first
+ */
+export function applyQuery(conversations: Conversation[], query: ConversationQuery): Conversation[] {
+  const { limit = 50, before, search } = query
+  const term = search?.trim().toLowerCase()
+
+  return conversations
+    .filter(conv => !before || conv.timestamp < before)
+    .filter(conv => !term ||
+      conv.question.toLowerCase().includes(term) ||
+      (conv.response || '').toLowerCase().includes(term)
+    )
+    .sort(byNewestFirst)
+    .slice(0, limit)
+}
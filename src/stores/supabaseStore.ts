@@ -0,0 +1,322 @@
+import type { Conversation, ConversationShare, ConversationStore, FeedbackRecord, SavedPromptTemplate } from '../types'
+import { reviveVersion } from './serialization'
+import { mimeTypeOf, extensionFor } from '../utils/imageEncoding'
+import { normalizeAttachments } from '../utils/attachments'
+
+// Ratings per request; below the default PostgREST row limit so a full page is never cut short
+const FEEDBACK_PAGE_SIZE = 500
+
+/**
+ * Options for the Supabase conversation store
+ */
+export interface SupabaseStoreOptions {
+  /** Supabase client instance */
+  client: any
+
+  /** Database schema. Default: 'hf' */
+  schema?: string
+
+  /** Conversations table. Default: 'ai_conversations' */
+  table?: string
+
+  /** Storage bucket for screenshots. Default: 'ai-screenshots' */
+  bucket?: string
+
+  /** Saved prompt templates table. Default: 'ai_prompt_templates' */
+  templatesTable?: string
+
+  /** Share links table. Default: 'ai_conversation_shares' */
+  sharesTable?: string
+}
+
+/**
+ * Conversation store backed by a Supabase table and storage bucket
+ */
+export function createSupabaseStore(options: SupabaseStoreOptions): ConversationStore {
+  const {
+    client,
+    schema = 'hf',
+    table = 'ai_conversations',
+    bucket = 'ai-screenshots',
+    templatesTable = 'ai_prompt_templates',
+    sharesTable = 'ai_conversation_shares'
+  } = options
+
+  const from = () => client.schema(schema).from(table)
+  const fromTemplates = () => client.schema(schema).from(templatesTable)
+  const fromShares = () => client.schema(schema).from(sharesTable)
+
+  const toConversation = (row: any): Conversation => ({
+    id: row.id,
+    question: row.question,
+    response: row.response,
+    screenshot: row.screenshot_url,
+    attachments: normalizeAttachments(row.attachments, row.screenshot_url),
+    timestamp: new Date(row.created_at),
+    loading: false,
+    error: null,
+    threadId: row.thread_id || row.id,
+    userId: row.user_id,
+    isFromDb: true,
+    syncStatus: 'synced',
+    model: row.model ?? undefined,
+    feedback: row.feedback_rating
+      ? { rating: row.feedback_rating, comment: row.feedback_comment ?? undefined, createdAt: new Date(row.feedback_at) }
+      : undefined,
+    latencyMs: row.latency_ms ?? undefined,
+    capture: row.capture_provider ? { provider: row.capture_provider, durationMs: row.capture_ms ?? 0 } : undefined,
+    suggestions: Array.isArray(row.suggestions) && row.suggestions.length > 0 ? row.suggestions : undefined,
+    alternates: Array.isArray(row.alternates) && row.alternates.length > 0 ? row.alternates.map(reviveVersion) : undefined,
+    api_payload: row.api_payload
+  })
+
+  const toRow = (conversation: Conversation) => ({
+    id: conversation.id,
+    user_id: conversation.userId,
+    thread_id: conversation.threadId,
+    question: conversation.question,
+    response: conversation.response,
+    screenshot_url: conversation.screenshot,
+    attachments: conversation.attachments?.length ? JSON.parse(JSON.stringify(conversation.attachments)) : null,
+    model: conversation.model ?? null,
+    feedback_rating: conversation.feedback?.rating ?? null,
+    feedback_comment: conversation.feedback?.comment ?? null,
+    feedback_at: conversation.feedback?.createdAt.toISOString() ?? null,
+    latency_ms: conversation.latencyMs ?? null,
+    capture_provider: conversation.capture?.provider ?? null,
+    capture_ms: conversation.capture?.durationMs ?? null,
+    suggestions: conversation.suggestions?.length ? [...conversation.suggestions] : null,
+    alternates: conversation.alternates?.length ? JSON.parse(JSON.stringify(conversation.alternates)) : null,
+    api_payload: conversation.api_payload,
+    // Keep the time it was asked, not the time it was saved (migrations, imports, outbox syncs)
+    created_at: conversation.timestamp.toISOString()
+  })
+
+  const toShare = (row: any): ConversationShare => ({
+    token: row.token,
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    createdAt: new Date(row.created_at),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined
+  })
+
+  // Remove every file stored for a conversation ({conversation_id}.jpg, attachments and later versions)
+  const removeAttachments = async (userId: string, conversationId: string) => {
+    const { data, error } = await client.storage.from(bucket).list(userId, { search: conversationId })
+    if (error) throw error
+
+    const paths = (data || [])
+      .filter((file: any) => file.name.startsWith(conversationId))
+      .map((file: any) => `${userId}/${file.name}`)
+    if (paths.length === 0) return
+
+    const { error: removeError } = await client.storage.from(bucket).remove(paths)
+    if (removeError) throw removeError
+  }
+
+  return {
+    name: 'supabase',
+    remote: true,
+
+    async list({ userId, limit = 50, before, search }) {
+      let query = from().select('*')
+      if (userId) {
+        query = query.eq('user_id', userId)
+      }
+      if (before) {
+        query = query.lt('created_at', before.toISOString())
+      }
+      const term = search?.trim()
+      if (term) {
+        // Characters with meaning in PostgREST filters or LIKE become single-character wildcards
+        const pattern = `%${term.replace(/[,()"\\%_*]/g, '_')}%`
+        query = query.or(`question.ilike.${pattern},response.ilike.${pattern}`)
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []).map(toConversation)
+    },
+
+    async get(id) {
+      const { data, error } = await from()
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) throw error
+      return data ? toConversation(data) : null
+    },
+
+    async save(conversation) {
+      // Upsert so repeated saves of the same conversation stay idempotent
+      const { error } = await from().upsert(toRow(conversation), { onConflict: 'id' })
+      if (error) throw error
+    },
+
+    async delete(id) {
+      const { data: row, error: readError } = await from()
+        .select('user_id')
+        .eq('id', id)
+        .maybeSingle()
+      if (readError) throw readError
+
+      const { error } = await from().delete().eq('id', id)
+      if (error) throw error
+
+      // The row is gone either way; a leftover screenshot is only logged
+      if (row?.user_id) {
+        try {
+          await removeAttachments(row.user_id, id)
+        } catch (storageError) {
+          console.warn(`[AnalyzeChat] Failed to remove screenshots for conversation ${id}:`, storageError)
+        }
+      }
+    },
+
+    async clear(userId) {
+      if (!userId) return
+      const { error } = await from().delete().eq('user_id', userId)
+      if (error) throw error
+    },
+
+    async listFeedback({ userId, since }) {
+      // PostgREST caps rows per response (1000 by default), so read the ratings a page at a time
+      const rows: any[] = []
+      for (let offset = 0; ; offset += FEEDBACK_PAGE_SIZE) {
+        let query = from()
+          .select('id, model, feedback_rating, feedback_comment, feedback_at')
+          .not('feedback_rating', 'is', null)
+        if (userId) {
+          query = query.eq('user_id', userId)
+        }
+        if (since) {
+          query = query.gte('feedback_at', since.toISOString())
+        }
+
+        const { data, error } = await query
+          .order('feedback_at', { ascending: false })
+          .order('id')
+          .range(offset, offset + FEEDBACK_PAGE_SIZE - 1)
+        if (error) throw error
+        rows.push(...(data || []))
+        if (!data || data.length < FEEDBACK_PAGE_SIZE) break
+      }
+
+      return rows.map((row: any): FeedbackRecord => ({
+        conversationId: row.id,
+        model: row.model ?? undefined,
+        rating: row.feedback_rating,
+        comment: row.feedback_comment ?? undefined,
+        createdAt: new Date(row.feedback_at)
+      }))
+    },
+
+    async listTemplates(userId) {
+      let query = fromTemplates().select('*')
+      if (userId) {
+        query = query.eq('user_id', userId)
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: true })
+      if (error) throw error
+      return (data || []).map((row: any): SavedPromptTemplate => ({
+        id: row.id,
+        userId: row.user_id,
+        command: row.command,
+        label: row.label,
+        prompt: row.prompt,
+        description: row.description ?? undefined,
+        createdAt: new Date(row.created_at)
+      }))
+    },
+
+    async saveTemplate(template) {
+      const { error } = await fromTemplates().upsert({
+        id: template.id,
+        user_id: template.userId,
+        command: template.command,
+        label: template.label,
+        prompt: template.prompt,
+        description: template.description ?? null,
+        created_at: template.createdAt.toISOString()
+      }, { onConflict: 'id' })
+      if (error) throw error
+    },
+
+    async deleteTemplate(id) {
+      const { error } = await fromTemplates().delete().eq('id', id)
+      if (error) throw error
+    },
+
+    async createShare(share) {
+      const { error } = await fromShares().insert({
+        token: share.token,
+        conversation_id: share.conversationId,
+        user_id: share.userId,
+        created_at: share.createdAt.toISOString(),
+        expires_at: share.expiresAt?.toISOString() ?? null
+      })
+      if (error) throw error
+    },
+
+    async listShares(conversationId) {
+      const { data, error } = await fromShares()
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []).map(toShare)
+    },
+
+    async revokeShare(token) {
+      const { error } = await fromShares()
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('token', token)
+      if (error) throw error
+    },
+
+    async getSharedConversation(token) {
+      // Security definer function: owner-only RLS still hides every row that isn't shared
+      const { data, error } = await client.schema(schema).rpc('get_shared_conversation', { share_token: token })
+      if (error) throw error
+
+      const row = Array.isArray(data) ? data[0] : data
+      return row ? toConversation(row) : null
+    },
+
+    async uploadAttachment(dataUrl, { conversationId, userId, version, attachmentId }) {
+      // Convert base64 to blob
+      const response = await fetch(dataUrl)
+      const blob = await response.blob()
+
+      // Create file path: {user_id}/{conversation_id}.{ext} for the screenshot,
+      // {conversation_id}-{attachment_id}.{ext} for other attachments, with -v{n} after the
+      // conversation id for later versions so earlier versions keep their own files
+      const contentType = mimeTypeOf(dataUrl) || blob.type || 'image/png'
+      const name = `${conversationId}${version ? `-v${version}` : ''}${attachmentId ? `-${attachmentId}` : ''}`
+      const filePath = `${userId}/${name}.${extensionFor(contentType)}`
+
+      const { error: uploadError } = await client.storage
+        .from(bucket)
+        .upload(filePath, blob, {
+          contentType,
+          upsert: true,
+          cacheControl: '3600'
+        })
+
+      if (uploadError) throw uploadError
+
+      const { data } = client.storage
+        .from(bucket)
+        .getPublicUrl(filePath)
+
+      return data.publicUrl
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import type { AnalyzeChatError, AnalyzeChatErrorCode } from '../errors'
+import type { Redactor } from '../utils/redaction'
+
 /**
  * Represents a single conversation exchange in the AI chat
  */
@@ -11,24 +14,57 @@ export interface Conversation {
   /** AI's response */
   response: string
   
-  /** Base64 encoded screenshot or URL (if captured) */
+  /** Base64 encoded screenshot or URL (if captured). Mirrors the 'screenshot' entry in attachments */
   screenshot: string | null
   
+  /** Everything sent with the question: the captured screenshot first, then added views, pasted images and files */
+  attachments?: ConversationAttachment[]
+  
   /** When the conversation occurred */
   timestamp: Date
   
   /** Whether the AI is currently processing this conversation */
   loading: boolean
   
+  /** Whether the response text is still streaming in */
+  streaming?: boolean
+  
   /** Error message if the conversation failed */
   error: string | null
   
+  /** Error code if the conversation failed (see AnalyzeChatError) */
+  errorCode?: AnalyzeChatErrorCode
+  
+  /** Thread this exchange belongs to. Conversations without one form a thread of their own */
+  threadId?: string
+  
   /** User ID (for database storage) */
   userId?: string
   
   /** Flag indicating if conversation was loaded from database */
   isFromDb?: boolean
   
+  /** Database sync state: queued in the outbox, saved, or out of automatic retries. Unset for guests and errors */
+  syncStatus?: 'pending' | 'synced' | 'failed'
+  
+  /** User's rating of the answer */
+  feedback?: ConversationFeedback
+  
+  /** Follow-up questions offered under the answer, from the API or a trailing list in the response */
+  suggestions?: string[]
+  
+  /** Earlier versions replaced by regenerating or editing the question, oldest first */
+  alternates?: ConversationVersion[]
+  
+  /** Model that answered (the one picked when asking, or the one the API reports) */
+  model?: string
+  
+  /** Milliseconds from sending the question to the complete answer, including retries */
+  latencyMs?: number
+  
+  /** Capture provider that produced the screenshot, and how long it took */
+  capture?: CaptureInfo
+  
   /** API transparency data - request sent and response received from OpenRouter */
   api_payload?: {
     request_sent_to_openrouter: {
@@ -47,6 +83,471 @@ export interface Conversation {
   }
 }
 
+/**
+ * An image or file sent with a question
+ */
+export interface ConversationAttachment {
+  /** Unique within the conversation. The automatic screenshot always has id 'screenshot' */
+  id: string
+  
+  /** Images are sent to the model as images; files as text */
+  kind: 'image' | 'file'
+  
+  /** How the attachment was added */
+  source: 'screenshot' | 'paste' | 'file'
+  
+  /** File name shown in the timeline */
+  name: string
+  
+  mimeType: string
+  
+  /** Base64 data URL until uploaded, then the stored URL */
+  url: string
+  
+  /** Size in bytes, when known */
+  size?: number
+  
+  /** Contents of text files (CSV, JSON, plain text) */
+  text?: string
+  
+  /** Capture provider, for screenshots */
+  capture?: CaptureInfo
+}
+
+/**
+ * A question/answer pair replaced by a regenerated or edited one
+ */
+export interface ConversationVersion {
+  question: string
+  response: string
+  screenshot: string | null
+  attachments?: ConversationAttachment[]
+  model?: string
+  latencyMs?: number
+  feedback?: ConversationFeedback
+  suggestions?: string[]
+  
+  /** When this version was replaced */
+  replacedAt: Date
+}
+
+/**
+ * Rating (and optional comment) left on an answer
+ */
+export interface ConversationFeedback {
+  rating: 'up' | 'down'
+  
+  /** Optional free-text explanation */
+  comment?: string
+  
+  /** When the rating was last changed */
+  createdAt: Date
+}
+
+/**
+ * A read-only link to one conversation. Anyone with the token can view it until it expires or is revoked
+ */
+export interface ConversationShare {
+  /** Unguessable token in the link */
+  token: string
+  
+  conversationId: string
+  
+  /** Owner of the conversation */
+  userId?: string
+  
+  createdAt: Date
+  
+  /** When the link stops working; never when absent */
+  expiresAt?: Date
+  
+  /** When the owner revoked the link */
+  revokedAt?: Date
+}
+
+/**
+ * A reusable question offered in the `/` command palette
+ */
+export interface PromptTemplate {
+  /** Typed after `/` to pick the template, e.g. 'pnl' for /pnl */
+  command: string
+  
+  /** Name shown in the palette */
+  label: string
+  
+  /** Question text. {{variables}} are filled from the page and contextProvider; unknown ones are left for the user */
+  prompt: string
+  
+  /** Shown under the label in the palette */
+  description?: string
+}
+
+/**
+ * A prompt template the user saved themselves
+ */
+export interface SavedPromptTemplate extends PromptTemplate {
+  id: string
+  
+  /** Owner, for remote stores */
+  userId?: string
+  
+  createdAt: Date
+}
+
+/**
+ * A single rating, as returned by ConversationStore.listFeedback
+ */
+export interface FeedbackRecord {
+  conversationId: string
+  
+  /** Model that produced the rated answer */
+  model?: string
+  
+  rating: 'up' | 'down'
+  comment?: string
+  createdAt: Date
+}
+
+/**
+ * Options for getFeedbackSummary
+ */
+export interface FeedbackQuery {
+  /** Owner of the rated conversations, or null for guests */
+  userId: string | null
+  
+  /** Only count ratings given at or after this time */
+  since?: Date
+}
+
+/**
+ * Rating counts for a group of answers
+ */
+export interface FeedbackCounts {
+  total: number
+  up: number
+  down: number
+}
+
+/**
+ * Aggregate ratings, overall and per model
+ */
+export interface FeedbackSummary extends FeedbackCounts {
+  /** Counts keyed by model id ('unknown' when no model was recorded) */
+  byModel: Record<string, FeedbackCounts>
+  
+  /** Most recent comments, newest first */
+  recentComments: FeedbackRecord[]
+}
+
+/**
+ * A model offered in the model picker
+ */
+export interface ModelOption {
+  /** Model identifier sent to the API, e.g. 'anthropic/claude-3.5-sonnet' */
+  id: string
+  
+  /** Name shown in the picker. Default: id */
+  label?: string
+}
+
+/**
+ * Generation parameters sent with each question. The API applies its own defaults for omitted values
+ */
+export interface GenerationParameters {
+  max_tokens?: number
+  temperature?: number
+  top_p?: number
+  top_k?: number
+}
+
+/**
+ * A group of conversations that share context, summarized for the thread switcher
+ */
+export interface ConversationThread {
+  /** Thread identifier (matches Conversation.threadId) */
+  id: string
+  
+  /** First question asked in the thread */
+  title: string
+  
+  /** Timestamp of the most recent exchange */
+  lastActivity: Date
+  
+  /** Number of exchanges in the thread */
+  count: number
+}
+
+/**
+ * Earlier question/answer pair sent to the API as context for follow-ups
+ */
+export interface ConversationHistoryEntry {
+  question: string
+  response: string
+}
+
+/**
+ * Options for listing stored conversations
+ */
+export interface ConversationQuery {
+  /** Owner of the conversations, or null for guests */
+  userId: string | null
+  
+  /** Maximum number of conversations to return. Default: 50 */
+  limit?: number
+  
+  /** Cursor: only return conversations older than this timestamp */
+  before?: Date
+  
+  /** Only return conversations whose question or response contains this text (case-insensitive) */
+  search?: string
+}
+
+/**
+ * Identifies where an uploaded attachment belongs
+ */
+export interface AttachmentTarget {
+  /** Conversation the attachment was captured for */
+  conversationId: string
+  
+  /** Owner of the conversation, or null for guests */
+  userId: string | null
+  
+  /** Version of the conversation (number of alternates); later versions get their own file */
+  version?: number
+  
+  /** Attachment id; omitted for the automatic screenshot */
+  attachmentId?: string
+}
+
+/**
+ * Storage backend for conversations and their attachments.
+ * Built-ins: createSupabaseStore, createLocalStorageStore, createIndexedDbStore, createMemoryStore
+ */
+export interface ConversationStore {
+  /** Backend name used in logs */
+  readonly name: string
+  
+  /** Whether data is stored off-device. Remote stores require a signed-in user and mark conversations isFromDb */
+  readonly remote: boolean
+  
+  /** List conversations, newest first */
+  list(query: ConversationQuery): Promise<Conversation[]>
+  
+  /** Get a single conversation by id, or null if it does not exist */
+  get(id: string): Promise<Conversation | null>
+  
+  /** Insert or update a conversation by id */
+  save(conversation: Conversation): Promise<void>
+  
+  /** Delete a single conversation and its attachments */
+  delete(id: string): Promise<void>
+  
+  /** Delete all conversations for a user. Falls back to list + delete when not implemented */
+  clear?(userId: string | null): Promise<void>
+  
+  /** List ratings without loading whole conversations. Falls back to list() when not implemented */
+  listFeedback?(query: FeedbackQuery): Promise<FeedbackRecord[]>
+  
+  /** List a user's saved prompt templates. Without the template methods, templates are kept on the device */
+  listTemplates?(userId: string | null): Promise<SavedPromptTemplate[]>
+  
+  /** Insert or update a saved prompt template by id */
+  saveTemplate?(template: SavedPromptTemplate): Promise<void>
+  
+  /** Delete a saved prompt template */
+  deleteTemplate?(id: string): Promise<void>
+  
+  /** Store a new share link. Only remote stores can share; the share methods come as a set */
+  createShare?(share: ConversationShare): Promise<void>
+  
+  /** List a conversation's share links, newest first, revoked and expired ones included */
+  listShares?(conversationId: string): Promise<ConversationShare[]>
+  
+  /** Stop a share link from working */
+  revokeShare?(token: string): Promise<void>
+  
+  /** The conversation behind a share token, or null if the link is unknown, revoked or expired. Needs no signed-in user */
+  getSharedConversation?(token: string): Promise<Conversation | null>
+  
+  /** Store a base64 data URL and return the URL to persist in its place */
+  uploadAttachment(dataUrl: string, target: AttachmentTarget): Promise<string>
+}
+
+/**
+ * File formats conversations can be exported to. 'html' is a print-ready report (print to PDF)
+ */
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+/**
+ * JSON export file. Conversations are stored records (ISO timestamps, no UI state)
+ */
+export interface ConversationExport {
+  /** Always 'y2kfund-analyze-chat' */
+  format: string
+  
+  /** Export format version */
+  version: number
+  
+  /** When the export was created (ISO 8601) */
+  exportedAt: string
+  
+  conversations: Record<string, any>[]
+}
+
+/**
+ * Outcome of importing a JSON export
+ */
+export interface ImportResult {
+  /** Conversations saved to the active store */
+  imported: number
+  
+  /** Conversations skipped because they already exist */
+  skipped: number
+  
+  /** Conversations that could not be saved */
+  failed: number
+}
+
+/**
+ * Progress of migrateLocalToDatabase
+ */
+export interface MigrationProgress {
+  /** Conversations processed so far (migrated or failed) */
+  completed: number
+  
+  /** Conversations being migrated */
+  total: number
+  
+  /** Conversation currently being migrated */
+  conversationId?: string
+}
+
+/**
+ * Options for migrateLocalToDatabase
+ */
+export interface MigrationOptions {
+  /** Called before each conversation and once when done */
+  onProgress?: (progress: MigrationProgress) => void
+}
+
+/**
+ * Outcome of migrateLocalToDatabase
+ */
+export interface MigrationResult {
+  /** Conversations found on the device */
+  total: number
+  
+  /** Conversations saved to the database and removed from the device */
+  migrated: number
+  
+  /** Conversations left on the device, with the reason */
+  failed: { conversationId: string; error: AnalyzeChatError }[]
+}
+
+/**
+ * Rectangle in viewport (client) coordinates
+ */
+export interface CaptureRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Part of the page to capture instead of the whole viewport
+ */
+export type CaptureTarget =
+  | { type: 'region'; rect: CaptureRect }
+  | { type: 'element'; element: HTMLElement }
+
+/**
+ * Passed to every CaptureProvider
+ */
+export interface CaptureContext {
+  /** Region or element to capture; undefined for the visible page */
+  target?: CaptureTarget
+  
+  /** Configured redaction; providers that render the page must apply it to their clone */
+  redactor: Redactor
+}
+
+/**
+ * One way of capturing the page. Providers are tried in order until one returns an image.
+ * Built-ins: createHtml2CanvasProvider, createDomCloneProvider, createTextSummaryProvider
+ */
+export interface CaptureProvider {
+  /** Provider name recorded on conversations and used in logs */
+  readonly name: string
+  
+  /** Produces a stand-in rather than a picture of the page; reaching it reports a ScreenshotError */
+  readonly fallback?: boolean
+  
+  /** A canvas (encoded with the screenshot settings), a data URL (used as is), or null to pass to the next provider */
+  capture(context: CaptureContext): Promise<HTMLCanvasElement | string | null>
+}
+
+/**
+ * Which provider captured a screenshot
+ */
+export interface CaptureInfo {
+  /** CaptureProvider name */
+  provider: string
+  
+  /** Milliseconds the successful provider took, encoding included */
+  durationMs: number
+}
+
+/**
+ * A table or grid extracted from the page
+ */
+export interface PageDataTable {
+  /** Caption, aria-label, context name or id of the table */
+  name: string
+  
+  /** Rows serialized as CSV (header row first when present) */
+  csv: string
+  
+  /** Rows included in csv */
+  rowCount: number
+  
+  /** Rows found on the page */
+  totalRows: number
+  
+  /** Whether rows were dropped to stay within the size budget */
+  truncated: boolean
+}
+
+/**
+ * Content of an element tagged with data-analyze-context
+ */
+export interface PageDataElement {
+  /** Value of the data-analyze-context attribute */
+  name: string
+  
+  /** Parsed data-analyze-context-value JSON, or the element's text */
+  data: unknown
+}
+
+/**
+ * Structured page content sent alongside the screenshot
+ */
+export interface PageData {
+  tables: PageDataTable[]
+  elements: PageDataElement[]
+  
+  /** Whether anything was dropped to stay within the size budget */
+  truncated: boolean
+  
+  /** App-specific state returned by AnalyzeChatConfig.contextProvider */
+  app?: Record<string, unknown>
+}
+
+/**
+ * Output formats for captured screenshots
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+
 /**
  * Configuration options for the AnalyzeChat component
  */
@@ -54,12 +555,30 @@ export interface AnalyzeChatConfig {
   /** API endpoint for AI assistant. Defaults to Cloudflare Worker */
   apiUrl?: string
   
-  /** Maximum number of screenshot capture retries. Default: 2 */
+  /** How many of the built-in image providers (html2canvas, DOM clone) to try before the text summary. Ignored with captureProviders. Default: 2 */
   maxScreenshotRetries?: number
   
-  /** Screenshot quality (0-1). Default: 0.8 */
+  /** Capture providers tried in order. Default: html2canvas, DOM clone, text summary */
+  captureProviders?: CaptureProvider[]
+  
+  /** Attachments a question can carry besides the automatic screenshot. Default: 5 */
+  maxAttachments?: number
+  
+  /** Largest file that can be attached, in bytes. Images are re-encoded to the screenshot settings instead. Default: 2097152 */
+  maxAttachmentBytes?: number
+  
+  /** Screenshot image format. WebP falls back to JPEG where unsupported. Default: 'jpeg' */
+  screenshotFormat?: ImageFormat
+  
+  /** Starting JPEG/WebP quality (0-1), lowered to fit screenshotMaxBytes. Default: 0.8 */
   screenshotQuality?: number
   
+  /** Longest screenshot side in pixels; larger captures are downscaled. 0 disables. Default: 1920 */
+  screenshotMaxDimension?: number
+  
+  /** Screenshot size budget in bytes; quality and then size are reduced until it fits. 0 disables. Default: 512000 */
+  screenshotMaxBytes?: number
+  
   /** LocalStorage key for persisting conversations. Default: 'y2kfund-analyze-chat-conversations' */
   storageKey?: string
   
@@ -75,11 +594,65 @@ export interface AnalyzeChatConfig {
   /** Current authenticated user object with id property */
   user?: { id: string } | null
   
-  /** Enable database storage (requires supabaseClient and user). Default: true if supabaseClient provided */
+  /** Enable database storage (requires supabaseClient and user, or a custom store). Default: true if supabaseClient or store provided */
   enableDatabase?: boolean
   
+  /** Conversation storage backend. Default: createSupabaseStore({ client: supabaseClient }) when supabaseClient is provided */
+  store?: ConversationStore
+  
+  /** Store used for guests, failed saves and errored conversations. Default: createLocalStorageStore({ storageKey }) */
+  fallbackStore?: ConversationStore
+  
   /** Whether to automatically load previous conversations on initialization. Default: true */
   autoLoad?: boolean
+  
+  /** Ask the API for a streamed (SSE or NDJSON) response. Streamed responses are always handled when returned. Default: false */
+  streamResponses?: boolean
+  
+  /** Number of earlier Q/A pairs from the active thread sent as `history` with each question. Default: 5 */
+  historyWindow?: number
+  
+  /** CSS selectors for elements blacked out in screenshots and stripped from page text. `[data-analyze-redact]` is always included */
+  redactSelectors?: string[]
+  
+  /** Patterns masked as [REDACTED] in text sent to the API (question, history, page text), e.g. account IDs */
+  redactPatterns?: (RegExp | string)[]
+  
+  /** Send HTML tables, ARIA grids and [data-analyze-context] elements as structured `pageData`. Default: true */
+  extractPageData?: boolean
+  
+  /** Character budget for extracted tables and context elements. Default: 8000 */
+  pageDataBudget?: number
+  
+  /** Adds app-specific state (selected portfolio, date range, ...) to `pageData.app`, and its values as prompt template variables */
+  contextProvider?: () => Record<string, unknown> | Promise<Record<string, unknown>>
+  
+  /** Templates offered in the `/` command palette, ahead of the user's saved ones */
+  promptTemplates?: PromptTemplate[]
+  
+  /** Builds the link for a share token, pointing at a page that renders SharedConversationViewer. Default: the current page with `?analyze-share=<token>` */
+  shareUrl?: (token: string) => string
+  
+  /** Milliseconds to wait for the API (or between streamed chunks) before giving up. 0 disables. Default: 60000 */
+  requestTimeout?: number
+  
+  /** Automatic retries for network failures and 5xx responses. Default: 2 */
+  maxRetries?: number
+  
+  /** Base delay in milliseconds between retries, doubled on each attempt. Default: 1000 */
+  retryDelay?: number
+  
+  /** Models offered in the input section's picker; the first one is the default. Default: the API's own model */
+  models?: (string | ModelOption)[]
+  
+  /** Generation parameters sent with every question */
+  defaultParameters?: GenerationParameters
+  
+  /** Milliseconds between background attempts to send queued questions and failed saves. 0 syncs only when coming back online. Default: 30000 */
+  syncInterval?: number
+  
+  /** How AnalyzeChat shows errors not tied to a conversation: toasts, an inline banner, or not at all (listen to `error`). Default: 'toast' */
+  errorDisplay?: 'toast' | 'inline' | 'none'
 }
 
 /**
@@ -92,23 +665,70 @@ export interface AnalyzeChatProps {
   /** Initial conversations to display (useful for SSR or preloading) */
   initialConversations?: Conversation[]
   
-  /** Whether the modal is initially visible */
+  /** Whether the chat is shown (v-model). Default: true, or the plugin controller's state for the shared chat */
   modelValue?: boolean
+  
+  /** Layout: a blocking modal, a panel docked to the right, or a movable window. Default: 'modal' */
+  mode?: AnalyzeChatMode
+}
+
+/**
+ * Props for the SharedConversationViewer component
+ */
+export interface SharedConversationViewerProps {
+  /** Share token from the link, e.g. the `analyze-share` query parameter */
+  token: string
+  
+  /** Store to read the shared conversation from. Default: createSupabaseStore({ client: supabaseClient }) */
+  store?: ConversationStore
+  
+  /** Supabase client instance; signed-out (anon) clients can read shared conversations */
+  supabaseClient?: any
+}
+
+/**
+ * How the chat is laid out over the page. 'docked' and 'floating' keep the page usable
+ */
+export type AnalyzeChatMode = 'modal' | 'docked' | 'floating'
+
+/**
+ * Options for opening the shared chat from code (useAnalyzeChatController().open)
+ */
+export interface AnalyzeChatOpenOptions {
+  /** Question to prefill */
+  question?: string
+  
+  /** Element to capture instead of the whole page, e.g. the grid or chart the question is about */
+  contextElement?: HTMLElement
+  
+  /** Send the question as soon as the capture is ready. Default: false */
+  autoSubmit?: boolean
+}
+
+/**
+ * Options for app.use(AnalyzeChatPlugin, options)
+ */
+export interface AnalyzeChatPluginOptions {
+  /** Config of the shared chat used by the controller and by <AnalyzeChat> without a config prop */
+  config?: AnalyzeChatConfig
 }
 
 /**
  * Events emitted by the AnalyzeChat component
  */
 export interface AnalyzeChatEmits {
-  /** Emitted when the user closes the modal */
+  /** Emitted when the user closes the chat */
   (event: 'close'): void
   
-  /** Emitted when the modal visibility changes */
+  /** Emitted when the chat visibility changes */
   (event: 'update:modelValue', value: boolean): void
   
   /** Emitted when a new conversation is added */
   (event: 'conversation-added', conversation: Conversation): void
   
-  /** Emitted when an error occurs */
-  (event: 'error', error: Error): void
+  /** Emitted when the user rates an answer or edits their comment (feedback is null when the rating is removed) */
+  (event: 'feedback', conversation: Conversation, feedback: ConversationFeedback | null): void
+  
+  /** Emitted for every error reported by the chat, including failed questions */
+  (event: 'error', error: AnalyzeChatError): void
 }
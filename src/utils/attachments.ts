@@ -0,0 +1,129 @@
+import type { CaptureInfo, ConversationAttachment } from '../types'
+import { mimeTypeOf } from './imageEncoding'
+
+/** Id of the screenshot captured automatically with each question */
+export const SCREENSHOT_ATTACHMENT_ID = 'screenshot'
+
+// Text formats sent to the model as text, by extension when the browser reports no type
+const TEXT_EXTENSIONS: Record<string, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  txt: 'text/plain',
+  md: 'text/markdown'
+}
+
+/** Value for a file input's accept attribute */
+export const ATTACHMENT_ACCEPT = ['image/*', ...Object.keys(TEXT_EXTENSIONS).map(ext => `.${ext}`)].join(',')
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? ''
+
+/**
+ * MIME type for a file that can be attached, or null if it can't
+ */
+export function attachableType(file: File): string | null {
+  if (file.type.startsWith('image/')) return file.type
+  if (file.type.startsWith('text/') || file.type === 'application/json') return file.type
+  return TEXT_EXTENSIONS[extensionOf(file.name)] ?? null
+}
+
+/**
+ * The automatic screenshot as an attachment
+ */
+export function screenshotAttachment(url: string, capture?: CaptureInfo): ConversationAttachment {
+  return {
+    id: SCREENSHOT_ATTACHMENT_ID,
+    kind: 'image',
+    source: 'screenshot',
+    name: 'Screenshot',
+    mimeType: mimeTypeOf(url) ?? 'image/png',
+    url,
+    capture
+  }
+}
+
+/**
+ * Attachments of a stored conversation. Records from before attachments existed only have a screenshot
+ */
+export function normalizeAttachments(
+  attachments: ConversationAttachment[] | null | undefined,
+  screenshot: string | null | undefined
+): ConversationAttachment[] | undefined {
+  if (Array.isArray(attachments) && attachments.length > 0) return attachments
+  return screenshot ? [screenshotAttachment(screenshot)] : undefined
+}
+
+/**
+ * Whether an attachment's URL is safe to render as a link or image. Stored and imported attachments
+ * can hold any string, so only web URLs, images and the text types attachable here are allowed
+ */
+export function hasSafeUrl(attachment: ConversationAttachment): boolean {
+  if (attachment.kind === 'image') return isSafeImageUrl(attachment.url)
+
+  const url = attachment.url.trim()
+  if (/^https?:\/\//i.test(url)) return true
+  const mimeType = mimeTypeOf(url)?.toLowerCase()
+  return !!mimeType && Object.values(TEXT_EXTENSIONS).includes(mimeType)
+}
+
+/**
+ * Whether a URL from stored or imported data can be shown as an image and linked: web URLs and image data URLs only
+ */
+export function isSafeImageUrl(url: string): boolean {
+  const trimmed = url.trim()
+  return /^https?:\/\//i.test(trimmed) || !!mimeTypeOf(trimmed)?.toLowerCase().startsWith('image/')
+}
+
+/**
+ * Attachments other than the automatic screenshot
+ */
+export function extraAttachments(attachments: ConversationAttachment[] | undefined): ConversationAttachment[] {
+  return (attachments ?? []).filter(attachment => attachment.id !== SCREENSHOT_ATTACHMENT_ID)
+}
+
+/**
+ * Read a file or blob as a base64 data URL
+ */
+export function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Draw an image data URL onto a canvas so it can be re-encoded
+ */
+export function loadImageCanvas(dataUrl: string): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = image.naturalWidth
+      canvas.height = image.naturalHeight
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        reject(new Error('Canvas is not available'))
+        return
+      }
+      // JPEG has no transparency; keep transparent areas white rather than black
+      ctx.fillStyle = '#ffffff'
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      ctx.drawImage(image, 0, 0)
+      resolve(canvas)
+    }
+    image.onerror = () => reject(new Error('The image could not be read'))
+    image.src = dataUrl
+  })
+}
+
+/**
+ * Human-readable file size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,165 @@
+import type { Conversation, ConversationExport } from '../types'
+import { toStoredConversation, fromStoredConversation } from '../stores/serialization'
+import { AnalyzeChatError } from '../errors'
+import { renderMarkdown } from './markdown'
+
+/** Identifies JSON files written by exportToJson */
+export const EXPORT_FORMAT = 'y2kfund-analyze-chat'
+
+/** Current JSON export version. Bump when the shape changes incompatibly */
+export const EXPORT_VERSION = 1
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(date)
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+/**
+ * Markdown document for pasting into memos. Screenshots are embedded as image links
+ */
+export function exportToMarkdown(conversations: Conversation[]): string {
+  const sections = conversations.map(conv => {
+    const parts = [
+      `## ${conv.question.replace(/\s+/g, ' ').trim()}`,
+      `**Asked:** ${formatDate(conv.timestamp)}${conv.model ? ` · **Model:** ${conv.model}` : ''}`
+    ]
+    if (conv.screenshot) {
+      parts.push(`![Screenshot](${conv.screenshot})`)
+    }
+    parts.push(conv.error ? `> **Error:** ${conv.error}` : conv.response)
+    return parts.join('\n\n')
+  })
+
+  return [
+    '# Analyze conversations',
+    `_Exported ${formatDate(new Date())} - ${conversations.length} conversation${conversations.length === 1 ? '' : 's'}_`,
+    ...sections
+  ].join('\n\n---\n\n') + '\n'
+}
+
+/**
+ * Lossless JSON export, restorable with parseConversationExport
+ */
+export function exportToJson(conversations: Conversation[]): string {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: conversations.map(toStoredConversation)
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Read a JSON export back into conversations. Throws an AnalyzeChatError ('import') for anything else
+ */
+export function parseConversationExport(json: string): Conversation[] {
+  let data: Partial<ConversationExport>
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new AnalyzeChatError('import', 'The file is not valid JSON', { cause: error })
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.conversations)) {
+    throw new AnalyzeChatError('import', 'The file is not an Analyze chat export')
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new AnalyzeChatError('import', `Unsupported export version: ${data.version}`)
+  }
+
+  return data.conversations
+    .filter(record =>
+      record &&
+      typeof record.id === 'string' &&
+      typeof record.question === 'string' &&
+      !Number.isNaN(new Date(record.timestamp).getTime())
+    )
+    .map(record => fromStoredConversation({
+      response: '',
+      screenshot: null,
+      error: null,
+      ...record
+    }))
+}
+
+/**
+ * Standalone HTML report, laid out for printing or saving as PDF
+ */
+export function exportToHtml(conversations: Conversation[], title = 'Analyze conversations'): string {
+  const items = conversations.map(conv => `
+    <article class="conversation">
+      <h2>${escapeHtml(conv.question)}</h2>
+      <p class="meta">${escapeHtml(formatDate(conv.timestamp))}${conv.model ? ` · ${escapeHtml(conv.model)}` : ''}</p>
+      ${conv.screenshot ? `<img class="screenshot" src="${escapeHtml(conv.screenshot)}" alt="Screenshot">` : ''}
+      ${conv.error
+        ? `<p class="error">Error: ${escapeHtml(conv.error)}</p>`
+        : `<div class="response">${renderMarkdown(conv.response)}</div>`}
+    </article>`).join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; }
+  header { border-bottom: 2px solid #111827; margin-bottom: 1.5rem; }
+  header h1 { margin: 0 0 0.25rem 0; font-size: 1.5rem; }
+  header p, .meta { color: #6b7280; font-size: 0.875rem; margin: 0 0 0.75rem 0; }
+  .conversation { border-bottom: 1px solid #e5e7eb; padding-bottom: 1.5rem; margin-bottom: 1.5rem; page-break-inside: avoid; }
+  .conversation h2 { font-size: 1.125rem; margin: 0 0 0.25rem 0; }
+  .screenshot { max-width: 100%; border: 1px solid #e5e7eb; border-radius: 4px; margin-bottom: 0.75rem; }
+  .error { color: #b91c1c; }
+  table { border-collapse: collapse; margin: 0.75rem 0; font-size: 0.875rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; }
+  pre { background: #f3f4f6; padding: 0.75rem; border-radius: 4px; overflow-x: auto; white-space: pre-wrap; }
+  .code-block-header { display: none; }
+  @media print { body { margin: 0; max-width: none; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p>Exported ${escapeHtml(formatDate(new Date()))} - ${conversations.length} conversation${conversations.length === 1 ? '' : 's'}</p>
+</header>
+${items}
+</body>
+</html>
+`
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Open the browser's print dialog (with "Save as PDF") for an HTML document
+ */
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe')
+  frame.style.cssText = 'position: fixed; width: 0; height: 0; border: 0; visibility: hidden;'
+  frame.srcdoc = html
+  // Fires once images have loaded, so screenshots make it onto the page
+  frame.onload = () => {
+    frame.contentWindow?.focus()
+    frame.contentWindow?.print()
+    setTimeout(() => frame.remove(), 1000)
+  }
+  document.body.appendChild(frame)
+}
@@ -0,0 +1,43 @@
+import type { Conversation, FeedbackCounts, FeedbackRecord, FeedbackSummary } from '../types'
+
+/** Key used for ratings on answers with no recorded model */
+export const UNKNOWN_MODEL = 'unknown'
+
+/**
+ * Ratings of rated conversations, for stores without listFeedback
+ */
+export function toFeedbackRecords(conversations: Conversation[], since?: Date): FeedbackRecord[] {
+  return conversations
+    .filter(conv => conv.feedback && (!since || conv.feedback.createdAt >= since))
+    .map(conv => ({
+      conversationId: conv.id,
+      model: conv.model,
+      rating: conv.feedback!.rating,
+      comment: conv.feedback!.comment,
+      createdAt: conv.feedback!.createdAt
+    }))
+}
+
+/**
+ * Count ratings overall and per model, keeping the most recent comments
+ */
+export function summarizeFeedback(records: FeedbackRecord[], commentLimit = 20): FeedbackSummary {
+  const emptyCounts = (): FeedbackCounts => ({ total: 0, up: 0, down: 0 })
+  const summary: FeedbackSummary = { ...emptyCounts(), byModel: {}, recentComments: [] }
+
+  records.forEach(record => {
+    const model = record.model || UNKNOWN_MODEL
+    const counts = summary.byModel[model] ?? (summary.byModel[model] = emptyCounts())
+    for (const target of [summary, counts]) {
+      target.total++
+      target[record.rating]++
+    }
+  })
+
+  summary.recentComments = records
+    .filter(record => record.comment?.trim())
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, commentLimit)
+
+  return summary
+}
@@ -0,0 +1,71 @@
+const HIGHLIGHT_CLASS = 'search-highlight'
+
+// Never highlight inside these - it would break copy buttons and code
+const SKIP_SELECTOR = 'button, code, pre'
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Wrap every case-insensitive match of term in already-sanitized HTML with <mark>.
+ * Only text nodes are touched, so markup and attributes stay intact.
+ */
+export function highlightHtml(html: string, term: string): string {
+  const trimmed = term.trim()
+  if (!trimmed) return html
+
+  const template = document.createElement('template')
+  template.innerHTML = html
+  const matcher = new RegExp(escapeRegExp(trimmed), 'gi')
+
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    if (!node.parentElement?.closest(SKIP_SELECTOR) && matcher.test(node.data)) {
+      textNodes.push(node)
+    }
+    matcher.lastIndex = 0
+  }
+
+  textNodes.forEach(node => {
+    const fragment = document.createDocumentFragment()
+    let lastIndex = 0
+    for (const match of node.data.matchAll(matcher)) {
+      const index = match.index ?? 0
+      fragment.append(node.data.slice(lastIndex, index))
+      const mark = document.createElement('mark')
+      mark.className = HIGHLIGHT_CLASS
+      mark.textContent = match[0]
+      fragment.append(mark)
+      lastIndex = index + match[0].length
+    }
+    fragment.append(node.data.slice(lastIndex))
+    node.replaceWith(fragment)
+  })
+
+  return template.innerHTML
+}
+
+/**
+ * Escape plain text for v-html, highlighting matches of term
+ */
+export function highlightText(text: string, term: string): string {
+  const container = document.createElement('div')
+  container.textContent = text
+  return highlightHtml(container.innerHTML, term)
+}
+
+/**
+ * Short excerpt of text around the first match of term
+ */
+export function excerptAround(text: string, term: string, radius = 60): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  const index = clean.toLowerCase().indexOf(term.trim().toLowerCase())
+  if (index === -1) {
+    return clean.length > radius * 2 ? `${clean.slice(0, radius * 2)}…` : clean
+  }
+
+  const start = Math.max(0, index - radius)
+  const end = Math.min(clean.length, index + term.trim().length + radius)
+  return `${start > 0 ? '…' : ''}${clean.slice(start, end)}${end < clean.length ? '…' : ''}`
+}
@@ -0,0 +1,127 @@
+import type { ImageFormat } from '../types'
+
+/**
+ * How a captured canvas is turned into a data URL
+ */
+export interface ImageEncodingOptions {
+  /** Output format. WebP falls back to JPEG in browsers that can't encode it */
+  format: ImageFormat
+
+  /** Starting quality for JPEG and WebP (0-1) */
+  quality: number
+
+  /** Longest side in pixels; larger captures are downscaled. 0 disables */
+  maxDimension: number
+
+  /** Size budget in bytes; quality, then size, is reduced until the image fits. 0 disables */
+  maxBytes: number
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/json': 'json',
+  'text/plain': 'txt',
+  'text/markdown': 'md'
+}
+
+// Lossy formats aren't taken below this quality; the image is shrunk instead
+const MIN_QUALITY = 0.4
+const QUALITY_STEP = 0.1
+
+// Each shrink keeps this share of the width and height
+const SHRINK_FACTOR = 0.75
+
+// Never shrink the longest side below this, even if the budget isn't met
+const MIN_DIMENSION = 480
+
+/**
+ * MIME type of a data URL (e.g. 'image/jpeg'), or null for anything else
+ */
+export function mimeTypeOf(dataUrl: string): string | null {
+  const match = /^data:([^;,]+)[;,]/.exec(dataUrl)
+  return match ? match[1] : null
+}
+
+/**
+ * File extension for an attachment MIME type, without the dot. Unknown types are saved as 'png'
+ */
+export function extensionFor(mimeType: string | null): string {
+  return (mimeType && EXTENSIONS[mimeType]) || 'png'
+}
+
+/**
+ * Decoded size in bytes of a base64 data URL
+ */
+export function dataUrlBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1)
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0
+  return Math.floor(base64.length * 3 / 4) - padding
+}
+
+/**
+ * Copy of a canvas whose longest side is at most maxDimension (the canvas itself if it already fits)
+ */
+export function scaleCanvas(source: HTMLCanvasElement, maxDimension: number): HTMLCanvasElement {
+  const longest = Math.max(source.width, source.height)
+  if (!maxDimension || longest <= maxDimension) return source
+
+  const ratio = maxDimension / longest
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(source.width * ratio))
+  canvas.height = Math.max(1, Math.round(source.height * ratio))
+  const ctx = canvas.getContext('2d')
+  if (ctx) {
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+  }
+  return canvas
+}
+
+/**
+ * Encode a canvas as a data URL within the size budget. Lossy formats first step quality
+ * down to MIN_QUALITY, then the image is shrunk until it fits or reaches MIN_DIMENSION;
+ * the smallest attempt is returned when nothing fits.
+ */
+export function encodeCanvas(source: HTMLCanvasElement, options: ImageEncodingOptions): string {
+  let canvas = scaleCanvas(source, options.maxDimension)
+  let mimeType = MIME_TYPES[options.format]
+  const lossy = mimeType !== MIME_TYPES.png
+  let quality = Math.min(1, Math.max(MIN_QUALITY, options.quality))
+
+  let encoded = canvas.toDataURL(mimeType, quality)
+  // Browsers that can't encode a type silently return PNG
+  if (mimeTypeOf(encoded) !== mimeType) {
+    mimeType = MIME_TYPES.jpeg
+    encoded = canvas.toDataURL(mimeType, quality)
+  }
+
+  let smallest = encoded
+  while (options.maxBytes > 0 && dataUrlBytes(encoded) > options.maxBytes) {
+    if (lossy && quality - QUALITY_STEP >= MIN_QUALITY - 0.001) {
+      quality -= QUALITY_STEP
+    } else {
+      const longest = Math.max(canvas.width, canvas.height)
+      if (longest <= MIN_DIMENSION) break
+      canvas = scaleCanvas(canvas, Math.max(MIN_DIMENSION, Math.round(longest * SHRINK_FACTOR)))
+    }
+
+    encoded = canvas.toDataURL(mimeType, quality)
+    if (encoded.length < smallest.length) smallest = encoded
+  }
+
+  if (options.maxBytes > 0 && dataUrlBytes(smallest) > options.maxBytes) {
+    console.warn(`[AnalyzeChat] Screenshot is ${Math.round(dataUrlBytes(smallest) / 1024)} KB, over the ${Math.round(options.maxBytes / 1024)} KB budget`)
+  }
+  return smallest
+}
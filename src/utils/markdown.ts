@@ -0,0 +1,100 @@
+import { Marked, type Tokens } from 'marked'
+import DOMPurify from 'dompurify'
+
+// Only inline images render. Remote ones would be fetched as soon as the answer shows, and a prompt
+// injection on the page could put the page's data in their URL
+const isInlineImage = (src: string) => /^data:image\//i.test(src.trim())
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// GFM (tables, task lists, strikethrough) with single newlines kept as line breaks
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    // Fenced code gets a header with the language and a copy button
+    code({ text, lang }: Tokens.Code) {
+      const language = escapeHtml((lang || '').match(/^\S*/)?.[0] || '')
+      return (
+        '<div class="code-block">' +
+        '<div class="code-block-header">' +
+        `<span class="code-block-lang">${language}</span>` +
+        '<button type="button" class="copy-code-button">Copy</button>' +
+        '</div>' +
+        `<pre><code${language ? ` class="language-${language}"` : ''}>${escapeHtml(text)}</code></pre>` +
+        '</div>'
+      )
+    },
+
+    // Remote images become plain links the user can choose to open
+    image({ href, title, text }: Tokens.Image) {
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : ''
+      if (isInlineImage(href)) {
+        return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`
+      }
+      return `<a href="${escapeHtml(href)}"${titleAttr}>${escapeHtml(text || href)}</a>`
+    }
+  }
+})
+
+// Private DOMPurify instance so our hooks don't leak into the host app. Created on first render,
+// so importing the package without a DOM (SSR) doesn't fail
+let purifier: ReturnType<typeof DOMPurify> | null = null
+
+const getPurifier = () => {
+  if (purifier) return purifier
+  purifier = DOMPurify(window)
+
+  // Links always open in a new tab without access to this window
+  const openInNewTab = (link: Element) => {
+    link.setAttribute('target', '_blank')
+    link.setAttribute('rel', 'noopener noreferrer nofollow')
+  }
+
+  purifier.addHook('afterSanitizeAttributes', (node) => {
+    // Raw HTML images with a remote source become links too, like markdown ones
+    if (node.tagName === 'IMG' && !isInlineImage(node.getAttribute('src') || '')) {
+      const src = node.getAttribute('src')
+      const alt = node.getAttribute('alt') || ''
+      if (src) {
+        const link = node.ownerDocument.createElement('a')
+        link.setAttribute('href', src)
+        link.textContent = alt || src
+        openInNewTab(link)
+        node.replaceWith(link)
+      } else {
+        node.replaceWith(alt)
+      }
+      return
+    }
+
+    // Nothing else loads from a URL (e.g. <input type="image">)
+    if (node.tagName !== 'IMG') {
+      node.removeAttribute('src')
+    }
+    node.removeAttribute('srcset')
+
+    if (node.tagName === 'A' && node.getAttribute('href')) {
+      openInNewTab(node)
+    }
+  })
+  return purifier
+}
+
+/**
+ * Render model output as sanitized HTML, safe for v-html
+ */
+export function renderMarkdown(source: string): string {
+  const html = markdown.parse(source || '', { async: false }) as string
+  return getPurifier().sanitize(html, {
+    USE_PROFILES: { html: true },
+    FORBID_TAGS: ['style', 'form', 'textarea', 'select', 'audio', 'video', 'source', 'picture', 'track'],
+    FORBID_ATTR: ['style', 'background', 'poster']
+  })
+}
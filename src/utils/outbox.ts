@@ -0,0 +1,56 @@
+/**
+ * Work waiting for connectivity: a question asked offline, or a conversation
+ * whose database save failed. The conversation itself lives in the fallback store.
+ */
+export interface OutboxEntry {
+  /** Conversation the work belongs to (one entry per conversation) */
+  conversationId: string
+
+  /** Send the question to the API, or save the finished conversation to the database */
+  type: 'question' | 'save'
+
+  /** Failed attempts so far */
+  attempts: number
+
+  /** Earliest time (ms since epoch) for the next automatic attempt */
+  nextAttemptAt: number
+}
+
+/**
+ * Persists outbox entries in localStorage so they survive reloads
+ */
+export interface Outbox {
+  load(): OutboxEntry[]
+  save(entries: OutboxEntry[]): void
+}
+
+/**
+ * Outbox stored under `${storageKey}-outbox`
+ */
+export function createOutbox(storageKey: string): Outbox {
+  const key = `${storageKey}-outbox`
+
+  return {
+    load() {
+      try {
+        const saved = localStorage.getItem(key)
+        return saved ? JSON.parse(saved) : []
+      } catch (error) {
+        console.error('[AnalyzeChat] Failed to read outbox:', error)
+        return []
+      }
+    },
+
+    save(entries) {
+      try {
+        if (entries.length === 0) {
+          localStorage.removeItem(key)
+        } else {
+          localStorage.setItem(key, JSON.stringify(entries))
+        }
+      } catch (error) {
+        console.error('[AnalyzeChat] Failed to write outbox:', error)
+      }
+    }
+  }
+}
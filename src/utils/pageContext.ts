@@ -0,0 +1,161 @@
+import type { PageData, PageDataElement, PageDataTable } from '../types'
+import type { Redactor } from './redaction'
+
+/** Attribute marking elements whose content should be sent as structured context */
+export const CONTEXT_ATTRIBUTE = 'data-analyze-context'
+
+/** Optional JSON value sent instead of the element's text */
+export const CONTEXT_VALUE_ATTRIBUTE = 'data-analyze-context-value'
+
+const TABLE_SELECTOR = 'table, [role="grid"], [role="table"], [role="treegrid"]'
+const ARIA_CELL_SELECTOR = '[role="gridcell"], [role="cell"], [role="columnheader"], [role="rowheader"]'
+
+// Never extract the chat itself
+const isChatElement = (element: Element) => !!element.closest('[class*="analyze-chat"]')
+
+const isVisible = (element: HTMLElement) =>
+  element.getClientRects().length > 0 && getComputedStyle(element).visibility !== 'hidden'
+
+// Quote a CSV field when needed
+const toCsvField = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Text of a cell or caption without redacted descendants, on one line
+const readText = (element: HTMLElement, redactor: Redactor) =>
+  redactor.extractText(element, Infinity).replace(/\s+/g, ' ').trim()
+
+// Name a table from its caption, label or surrounding context
+const getTableName = (table: HTMLElement, index: number, redactor: Redactor): string => {
+  const caption = table.querySelector('caption')
+  const label = table.getAttribute('aria-label')
+  return (
+    (caption && readText(caption, redactor)) ||
+    (label && redactor.maskText(label)) ||
+    table.closest(`[${CONTEXT_ATTRIBUTE}]`)?.getAttribute(CONTEXT_ATTRIBUTE) ||
+    table.id ||
+    `Table ${index + 1}`
+  )
+}
+
+// Read the rows of an HTML table or an ARIA grid as cell text
+const readTableRows = (table: HTMLElement, redactor: Redactor): string[][] => {
+  const rows = table.tagName === 'TABLE'
+    ? Array.from((table as HTMLTableElement).rows)
+    : Array.from(table.querySelectorAll<HTMLElement>('[role="row"]'))
+
+  return rows
+    // Whole rows marked for redaction are dropped
+    .filter(row => !row.closest(redactor.selector))
+    .map(row => {
+      const cells = row.tagName === 'TR'
+        ? Array.from((row as HTMLTableRowElement).cells)
+        : Array.from(row.querySelectorAll<HTMLElement>(ARIA_CELL_SELECTOR))
+
+      return cells.map(cell => {
+        if (cell.closest(redactor.selector)) return '[REDACTED]'
+        return readText(cell, redactor)
+      })
+    })
+    .filter(cells => cells.some(Boolean))
+}
+
+// Serialize rows to CSV until the character budget runs out
+const toCsv = (rows: string[][], budget: number) => {
+  const lines: string[] = []
+  let used = 0
+
+  for (const row of rows) {
+    const line = row.map(toCsvField).join(',')
+    if (used + line.length + 1 > budget) break
+    lines.push(line)
+    used += line.length + 1
+  }
+
+  return { csv: lines.join('\n'), rowCount: lines.length, used }
+}
+
+// Parse an explicit JSON context value, falling back to the raw string
+const parseContextValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Extract HTML tables, ARIA grids and [data-analyze-context] elements as structured data.
+ * Tagged elements are serialized first, then remaining tables, until the character budget is spent.
+ */
+export function extractPageData(root: HTMLElement, redactor: Redactor, budget: number): PageData {
+  const elements: PageDataElement[] = []
+  const tables: PageDataTable[] = []
+  let remaining = budget
+  let truncated = false
+
+  const tagged = Array.from(root.querySelectorAll<HTMLElement>(`[${CONTEXT_ATTRIBUTE}]`))
+    .filter(element => !isChatElement(element) && !element.closest(redactor.selector))
+
+  for (const element of tagged) {
+    if (remaining <= 0) {
+      truncated = true
+      break
+    }
+
+    const name = element.getAttribute(CONTEXT_ATTRIBUTE) || element.id || element.tagName.toLowerCase()
+    const rawValue = element.getAttribute(CONTEXT_VALUE_ATTRIBUTE)
+
+    // Tables inside tagged elements are picked up below under the element's name
+    if (rawValue === null && element.querySelector(TABLE_SELECTOR)) continue
+
+    const data = rawValue !== null
+      ? redactor.maskValue(parseContextValue(rawValue))
+      : redactor.extractText(element, remaining)
+
+    const size = JSON.stringify(data).length
+    if (size > remaining) {
+      truncated = true
+      continue
+    }
+
+    elements.push({ name, data })
+    remaining -= size
+  }
+
+  const candidates = Array.from(root.querySelectorAll<HTMLElement>(TABLE_SELECTOR))
+    .filter(table =>
+      !isChatElement(table) &&
+      !table.closest(redactor.selector) &&
+      // Skip tables nested inside another extracted table
+      !table.parentElement?.closest(TABLE_SELECTOR) &&
+      isVisible(table)
+    )
+
+  candidates.forEach((table, index) => {
+    if (remaining <= 0) {
+      truncated = true
+      return
+    }
+
+    const rows = readTableRows(table, redactor)
+    if (rows.length === 0) return
+
+    const { csv, rowCount, used } = toCsv(rows, remaining)
+    if (rowCount === 0) {
+      truncated = true
+      return
+    }
+
+    tables.push({
+      name: getTableName(table, index, redactor),
+      csv,
+      rowCount,
+      totalRows: rows.length,
+      truncated: rowCount < rows.length
+    })
+    truncated = truncated || rowCount < rows.length
+    remaining -= used
+  })
+
+  return { tables, elements, truncated }
+}
@@ -0,0 +1,100 @@
+import type { PromptTemplate, SavedPromptTemplate } from '../types'
+
+// {{name}} or {{nested.name}} in a template's prompt
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+// Nesting followed when turning context objects into variables ({{account.name}})
+const MAX_VARIABLE_DEPTH = 3
+
+/**
+ * Whether a template was saved by the user rather than configured by the app
+ */
+export function isSavedTemplate(template: PromptTemplate): template is SavedPromptTemplate {
+  return 'id' in template && typeof (template as SavedPromptTemplate).id === 'string'
+}
+
+/**
+ * Variables every template can use: title, url, path, date and time of the host page
+ */
+export function pageVariables(now = new Date()): Record<string, string> {
+  return {
+    title: document.title,
+    url: window.location.href,
+    path: window.location.pathname,
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString()
+  }
+}
+
+/**
+ * Flatten context values into template variables. Nested objects become dotted names;
+ * arrays and empty values are skipped
+ */
+export function toTemplateVariables(context: Record<string, unknown>, prefix = '', depth = 0): Record<string, string> {
+  const variables: Record<string, string> = {}
+  Object.entries(context).forEach(([key, value]) => {
+    const name = prefix ? `${prefix}.${key}` : key
+    if (value === null || value === undefined || Array.isArray(value)) return
+    if (value instanceof Date) {
+      variables[name] = value.toLocaleDateString()
+    } else if (typeof value === 'object') {
+      if (depth < MAX_VARIABLE_DEPTH) {
+        Object.assign(variables, toTemplateVariables(value as Record<string, unknown>, name, depth + 1))
+      }
+    } else {
+      variables[name] = String(value)
+    }
+  })
+  return variables
+}
+
+/**
+ * Replace known {{variables}}. Unknown ones stay in place for the user to fill in
+ */
+export function fillTemplate(prompt: string, variables: Record<string, string>): string {
+  return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  )
+}
+
+/**
+ * Position of the first unfilled {{variable}}, to select it after inserting a template
+ */
+export function findPlaceholder(text: string): { start: number; end: number } | null {
+  const match = new RegExp(VARIABLE_PATTERN.source).exec(text)
+  return match ? { start: match.index, end: match.index + match[0].length } : null
+}
+
+/**
+ * Slash command for a template name ("Flag outliers" becomes 'flag-outliers'), made unique among taken commands
+ */
+export function commandFor(label: string, taken: string[] = []): string {
+  const base = label
+    .toLowerCase()
+    .normalize('NFKD')
+    // Drop the accents NFKD splits off, so "Über" becomes 'uber' rather than 'u-ber'
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32) || 'prompt'
+
+  let command = base
+  for (let n = 2; taken.includes(command); n++) {
+    command = `${base}-${n}`
+  }
+  return command
+}
+
+/**
+ * Templates matching what was typed after `/`: command prefixes first, then label matches
+ */
+export function matchTemplates<T extends PromptTemplate>(templates: T[], query: string): T[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return templates
+
+  const byCommand = templates.filter(template => template.command.toLowerCase().startsWith(term))
+  const byLabel = templates.filter(template =>
+    !byCommand.includes(template) && template.label.toLowerCase().includes(term)
+  )
+  return [...byCommand, ...byLabel]
+}
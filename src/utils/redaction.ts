@@ -0,0 +1,154 @@
+/** Attribute host apps put on elements that must never leave the browser */
+export const REDACT_ATTRIBUTE = 'data-analyze-redact'
+
+const REDACTED_TEXT = '[REDACTED]'
+
+// Elements whose pixels can't be hidden with colors alone
+const REPLACED_ELEMENTS = new Set(['IMG', 'CANVAS', 'SVG', 'VIDEO', 'IFRAME', 'INPUT', 'TEXTAREA', 'SELECT', 'PICTURE', 'OBJECT', 'EMBED'])
+
+// Never part of extracted page text
+const NON_TEXT_SELECTOR = 'script, style, noscript, template, [class*="analyze-chat"]'
+
+/**
+ * Options for building a redactor
+ */
+export interface RedactionOptions {
+  /** Extra CSS selectors to black out (the redact attribute is always included) */
+  selectors?: string[]
+
+  /** Patterns masked in any text sent to the API */
+  patterns?: (RegExp | string)[]
+}
+
+/**
+ * Applies configured redaction to screenshots and page text
+ */
+export interface Redactor {
+  /** Combined selector matching every redacted element */
+  readonly selector: string
+
+  /** Black out redacted elements inside a cloned document or detached subtree */
+  redactClone(root: ParentNode): number
+
+  /** Replace configured patterns in text */
+  maskText(text: string): string
+
+  /** Replace configured patterns in every string of a JSON-like value */
+  maskValue<T>(value: T): T
+
+  /** Visible text of a subtree with redacted elements stripped and patterns masked */
+  extractText(root: Node, limit: number): string
+}
+
+// Ensure every pattern replaces all matches
+const toGlobalRegExp = (pattern: RegExp | string): RegExp => {
+  if (typeof pattern === 'string') return new RegExp(pattern, 'g')
+  return pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+}
+
+/**
+ * Build a redactor from config selectors and patterns
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+  // Drop invalid selectors up front so one typo can't break every capture
+  const validSelectors = (options.selectors || []).filter(candidate => {
+    try {
+      document.createDocumentFragment().querySelector(candidate)
+      return true
+    } catch {
+      console.warn(`[AnalyzeChat] Ignoring invalid redaction selector: ${candidate}`)
+      return false
+    }
+  })
+  const selector = [`[${REDACT_ATTRIBUTE}]`, ...validSelectors].join(', ')
+  const patterns = (options.patterns || []).map(toGlobalRegExp)
+
+  const maskText = (text: string): string => {
+    return patterns.reduce((masked, pattern) => masked.replace(pattern, REDACTED_TEXT), text)
+  }
+
+  const maskValue = <T>(value: T): T => {
+    if (patterns.length === 0) return value
+    if (typeof value === 'string') return maskText(value) as T
+    if (Array.isArray(value)) return value.map(maskValue) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, maskValue(entry)])
+      ) as T
+    }
+    return value
+  }
+
+  const blackOut = (element: HTMLElement) => {
+    const doc = element.ownerDocument
+
+    if (REPLACED_ELEMENTS.has(element.tagName.toUpperCase())) {
+      // Swap images, canvases and form controls for a solid box of the same size
+      const box = doc.createElement('div')
+      box.setAttribute(REDACT_ATTRIBUTE, '')
+      box.style.cssText = `
+        display: inline-block;
+        width: ${element.offsetWidth || element.clientWidth || 0}px;
+        height: ${element.offsetHeight || element.clientHeight || 0}px;
+        background: #000000;
+      `
+      element.replaceWith(box)
+      return
+    }
+
+    element.style.setProperty('background', '#000000', 'important')
+    element.style.setProperty('color', '#000000', 'important')
+    element.style.setProperty('border-color', '#000000', 'important')
+    element.style.setProperty('text-shadow', 'none', 'important')
+
+    // Keep layout but hide every pixel of the contents
+    element.querySelectorAll<HTMLElement>('*').forEach(child => {
+      child.style.setProperty('visibility', 'hidden', 'important')
+    })
+    element.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        node.textContent = (node.textContent || '').replace(/\S/g, '█')
+      }
+    })
+  }
+
+  const redactClone = (root: ParentNode): number => {
+    const matches = Array.from(root.querySelectorAll<HTMLElement>(selector))
+    matches.forEach(element => {
+      try {
+        blackOut(element)
+      } catch (error) {
+        console.warn('[AnalyzeChat] Failed to redact element, removing it instead:', error)
+        element.remove()
+      }
+    })
+    if (matches.length > 0) {
+      console.log(`[AnalyzeChat] Redacted ${matches.length} elements`)
+    }
+    return matches.length
+  }
+
+  const extractText = (root: Node, limit: number): string => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+      acceptNode: (node) => {
+        const parent = node.parentElement
+        if (!parent || parent.closest(NON_TEXT_SELECTOR) || parent.closest(selector)) {
+          return NodeFilter.FILTER_REJECT
+        }
+        return node.textContent?.trim() ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT
+      }
+    })
+
+    const parts: string[] = []
+    let length = 0
+    while (walker.nextNode() && length < limit) {
+      const text = walker.currentNode.textContent!.replace(/\s+/g, ' ').trim()
+      parts.push(text)
+      length += text.length + 1
+    }
+
+    return maskText(parts.join('\n')).slice(0, limit)
+  }
+
+  return { selector, redactClone, maskText, maskValue, extractText }
+}
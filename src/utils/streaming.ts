@@ -0,0 +1,116 @@
+/**
+ * A single chunk parsed from a streaming AI response
+ */
+export interface StreamChunk {
+  /** Text to append to the response */
+  delta?: string
+
+  /** Full response text so far (for servers that send cumulative text) */
+  response?: string
+
+  /** API transparency data, usually sent with the final chunk */
+  api_payload?: any
+
+  /** Follow-up questions, usually sent with the final chunk */
+  suggestions?: string[]
+
+  /** Error message reported by the server mid-stream */
+  error?: string
+
+  /** Set on the final chunk */
+  done?: boolean
+}
+
+const STREAMING_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson', 'application/jsonl']
+
+/**
+ * Whether the response body should be read incrementally instead of via response.json()
+ */
+export function isStreamingResponse(response: Response): boolean {
+  const contentType = (response.headers.get('content-type') || '').toLowerCase()
+  return !!response.body && STREAMING_CONTENT_TYPES.some(type => contentType.includes(type))
+}
+
+// Normalize one SSE data payload or NDJSON line into a StreamChunk
+const parseChunk = (raw: string): StreamChunk | null => {
+  const text = raw.trim()
+  if (!text) return null
+  if (text === '[DONE]') return { done: true }
+
+  try {
+    const parsed = JSON.parse(text)
+    if (typeof parsed === 'string') return { delta: parsed }
+    if (!parsed || typeof parsed !== 'object') return { delta: String(parsed) }
+
+    return {
+      // Accept OpenRouter/OpenAI-style deltas passed straight through by the worker
+      delta: parsed.delta ?? parsed.choices?.[0]?.delta?.content ?? undefined,
+      response: typeof parsed.response === 'string' ? parsed.response : undefined,
+      api_payload: parsed.api_payload,
+      suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions : undefined,
+      error: parsed.error ? String(parsed.error) : undefined,
+      done: parsed.done === true
+    }
+  } catch {
+    // Plain text chunk
+    return { delta: raw }
+  }
+}
+
+/**
+ * Read an SSE or NDJSON response body, calling onChunk for every parsed chunk.
+ * Resolves once the server sends a done marker or closes the stream.
+ */
+export async function readResponseStream(
+  response: Response,
+  onChunk: (chunk: StreamChunk) => void
+): Promise<void> {
+  if (!response.body) return
+
+  const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream')
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  // Returns true once a done marker was seen
+  const flush = (final: boolean): boolean => {
+    const separator = isEventStream ? /\r?\n\r?\n/ : /\r?\n/
+    const parts = buffer.split(separator)
+    buffer = final ? '' : parts.pop() || ''
+
+    for (const part of parts) {
+      const payload = isEventStream
+        ? part
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).replace(/^ /, ''))
+            .join('\n')
+        : part
+
+      const chunk = parseChunk(payload)
+      if (!chunk) continue
+      onChunk(chunk)
+      if (chunk.done) return true
+    }
+    return false
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        buffer += decoder.decode()
+        flush(true)
+        return
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      if (flush(false)) {
+        await reader.cancel()
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,68 @@
+// Most follow-up questions shown under an answer
+const MAX_SUGGESTIONS = 5
+
+// Longer "suggestions" are almost certainly prose, not a question to click
+const MAX_SUGGESTION_LENGTH = 200
+
+// Headings that introduce a trailing list of follow-up questions, once #, * and : are stripped.
+// Only headings about questions: "Next steps" and the like are part of the answer
+const SECTION_HEADING = /^(?:suggested\s+)?follow[\s-]?ups?(?:\s+questions?)?$|^(?:suggested|related|next)\s+questions?$|^(?:you\s+(?:might|could|may)\s+also\s+ask|questions\s+to\s+ask\s+next)$/i
+
+// "- item", "* item", "1. item" or "1) item"
+const LIST_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+(.+)$/
+
+const cleanSuggestion = (text: string) => text
+  .trim()
+  .replace(/^\*\*(.+)\*\*$/, '$1')
+  .replace(/^["“'](.+)["”']$/, '$1')
+  .trim()
+
+/**
+ * Follow-up questions from an API response field: trimmed, deduplicated strings, at most MAX_SUGGESTIONS.
+ * Undefined when there are none
+ */
+export function normalizeSuggestions(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined
+
+  const suggestions: string[] = []
+  value.forEach(item => {
+    if (typeof item !== 'string') return
+    const text = cleanSuggestion(item)
+    if (text && text.length <= MAX_SUGGESTION_LENGTH && !suggestions.includes(text)) {
+      suggestions.push(text)
+    }
+  })
+  return suggestions.length > 0 ? suggestions.slice(0, MAX_SUGGESTIONS) : undefined
+}
+
+/**
+ * Split a trailing "Follow-up questions" list off an answer. Only a heading followed by nothing
+ * but questions counts, so lists inside the answer are never taken. Null when there is none
+ */
+export function extractSuggestions(response: string): { response: string; suggestions: string[] } | null {
+  const lines = response.replace(/\s+$/, '').split(/\r?\n/)
+
+  const items: string[] = []
+  let index = lines.length - 1
+  for (; index >= 0; index--) {
+    const line = lines[index]
+    if (!line.trim()) continue
+    const item = LIST_ITEM.exec(line)
+    if (!item) break
+    items.unshift(item[1])
+  }
+  if (index < 0 || items.length === 0) return null
+
+  const heading = lines[index].replace(/^\s*#{1,6}\s*/, '').replace(/[*_:]/g, '').trim()
+  if (!SECTION_HEADING.test(heading)) return null
+
+  // Every item must be a question; anything else is advice to read, not to send
+  if (!items.every(item => cleanSuggestion(item).endsWith('?'))) return null
+
+  const suggestions = normalizeSuggestions(items)
+  // Drop the heading, and a horizontal rule just above it
+  const answer = lines.slice(0, index).join('\n').replace(/\n\s*(?:-{3,}|\*{3,}|_{3,})\s*$/, '').replace(/\s+$/, '')
+  if (!suggestions || !answer) return null
+
+  return { response: answer, suggestions }
+}